@@ -1,4 +1,5 @@
 import esbuild from "esbuild";
+import path from "path";
 import process from "process";
 import builtins from "builtin-modules";
 
@@ -11,12 +12,42 @@ if you want to view the source, please visit the github repository of this plugi
 
 const prod = (process.argv[2] === "production");
 
+// `worker:<path>` imports are bundled on their own and inlined as source text,
+// so the plugin still ships as a single main.js
+const inlineWorkerPlugin = {
+	name: "inline-worker",
+	setup(build) {
+		build.onResolve({ filter: /^worker:/ }, (args) => ({
+			path: path.resolve(args.resolveDir, args.path.slice("worker:".length)),
+			namespace: "inline-worker",
+		}));
+		build.onLoad({ filter: /.*/, namespace: "inline-worker" }, async (args) => {
+			const result = await esbuild.build({
+				entryPoints: [args.path],
+				bundle: true,
+				write: false,
+				metafile: true,
+				format: "iife",
+				target: "es2018",
+				minify: prod,
+				logLevel: "silent",
+			});
+			return {
+				contents: `export default ${JSON.stringify(result.outputFiles[0].text)};`,
+				loader: "js",
+				watchFiles: Object.keys(result.metafile.inputs).map((input) => path.resolve(input)),
+			};
+		});
+	},
+};
+
 const context = await esbuild.context({
 	banner: {
 		js: banner,
 	},
 	entryPoints: ["src/main.ts"],
 	bundle: true,
+	plugins: [inlineWorkerPlugin],
 	external: [
 		"obsidian",
 		"electron",
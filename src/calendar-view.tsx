@@ -27,6 +27,8 @@ import { AppContext } from "./context";
 import { NewEventService } from "./new-event-service";
 import { CalendarPluginBridge } from "./plugin-interface";
 import { AutoCreateService } from "./services/auto-create-service";
+import { buildMappedFrontmatter, collectLinkedPeople } from "./services/frontmatter-mapping";
+import { writeSyncSnapshot } from "./services/sync-snapshot";
 import {
   DEFAULT_CONDENSE_LEVEL,
   DEFAULT_PRIORITY_COLOR_MAP,
@@ -80,7 +82,8 @@ export class CalendarView extends BasesView {
   private externalCalendarService: ExternalCalendarService;
   // private showHiddenEvents: boolean = false; // Removed per user request
   private cachedExternalEvents: ExternalCalendarEvent[] = [];
-  private isFetchingExternalEvents: boolean = false;
+  /** The external fetch in flight; a fetch for another range aborts it */
+  private externalFetch: { range: string; controller: AbortController } | null = null;
   private viewMode: "day" | "3d" | "5d" | "7d" | "week" | "month" | "continuous" = "week";
 
   private headerResizeObserver: ResizeObserver | null = null;
@@ -130,7 +133,13 @@ export class CalendarView extends BasesView {
     });
     this.lastAutoCreateCheck = 0;
     this.newEventService = new NewEventService({ app: this.app });
-    this.externalCalendarService = new ExternalCalendarService();
+    this.externalCalendarService = new ExternalCalendarService({
+      getAuthHeaders: (url) => this.plugin.getCalendarAuthHeaders(url),
+      getSourceType: (url) => this.plugin.getCalendarSourceType(url),
+      getAssumedTimezone: (url) => this.plugin.getCalendarAssumedTimezone(url),
+      fileAdapter: this.app.vault.adapter,
+      feedCache: this.plugin.feedCache,
+    });
     // this.autoCreateService = new AutoCreateService(this.app); // REMOVED
 
     // Create debounced version of header update
@@ -247,6 +256,9 @@ export class CalendarView extends BasesView {
       window.clearTimeout(this.refreshTimeout);
       this.refreshTimeout = null;
     }
+    this.externalFetch?.controller.abort();
+    this.externalFetch = null;
+    this.externalCalendarService.dispose();
     // if (this.syncIntervalId !== null) {
     //   window.clearInterval(this.syncIntervalId);
     //   this.syncIntervalId = null;
@@ -508,13 +520,17 @@ export class CalendarView extends BasesView {
         meetingNoteFolder: this.plugin.settings.meetingNoteFolder,
         meetingNoteTemplate: this.plugin.settings.meetingNoteTemplate,
         autoCreateDailyNote: this.autoCreateDailyNote,
-        startProperty: (this.config.get("startProperty") as string) || "scheduled",
-        endProperty: (this.config.get("endProperty") as string) || "timeEstimate",
-        useEndDuration: this.useEndDuration,
         syncOnEventDelete: this.plugin.settings.syncOnEventDelete || 'nothing',
         archiveFolder: this.plugin.settings.archiveFolder || ""
       });
     }
+    this.plugin
+      .setMeetingNoteProperties(
+        (this.config.get("startProperty") as string) || "scheduled",
+        (this.config.get("endProperty") as string) || "timeEstimate",
+        this.useEndDuration,
+      )
+      .catch((error) => logger.error('[CalendarView] Failed to save meeting note properties:', error));
 
     this.updateNewEventService();
   }
@@ -585,6 +601,14 @@ export class CalendarView extends BasesView {
 
     // 2. Process local entries
     const handledExternalEventIds = new Set<string>();
+    const eventsByNotePath = new Map<string, ExternalCalendarEvent>();
+    for (const extEvent of allExternalEvents) {
+      const note = this.plugin.eventNoteIndex.findMatch(extEvent);
+      // An exact id match wins over a UID match found earlier
+      if (note && (!eventsByNotePath.has(note.file.path) || note.googleEventId === extEvent.id)) {
+        eventsByNotePath.set(note.file.path, extEvent);
+      }
+    }
 
     // logger.log(`[CalendarView] Processing ${this.data.data.length} local entries against ${allExternalEvents.length} external events`);
 
@@ -665,58 +689,8 @@ export class CalendarView extends BasesView {
         let externalMatch: ExternalCalendarEvent | undefined;
 
         if (googleEventId) {
-          // logger.log(`[CalendarView] Local note "${entryFile?.path}" has googleEventId: ${googleEventId}`);
-
-          // Try exact match
-          externalMatch = allExternalEvents.find(e => e.id === googleEventId);
-
-          // Try fuzzy match if no exact match (Stable UID logic)
-          if (!externalMatch) {
-            // Logic: if ID has a timestamp suffix (e.g. UID-123456), use that timestamp.
-            // If ID is just UID (single instance), then we compare UID only.
-
-            const noteUid = googleEventId.includes('-') ? googleEventId.split('-')[0] : googleEventId;
-            const noteSuffix = googleEventId.includes('-') ? googleEventId.substring(googleEventId.lastIndexOf('-') + 1) : null;
-            const noteSuffixTs = noteSuffix ? parseInt(noteSuffix) : NaN;
-
-            // Iterate through external events
-            for (const extEvent of allExternalEvents) {
-              // Check UID first
-              if (extEvent.uid !== noteUid) continue;
-
-              // 1. Single Event Match (Both are master)
-              if (!noteSuffix && !extEvent.id.includes('-')) {
-                externalMatch = extEvent;
-                break;
-              }
-
-              // 2. Recurring Instance Match (Both have suffixes)
-              if (noteSuffix && extEvent.id.includes('-')) {
-                const extSuffix = extEvent.id.substring(extEvent.id.lastIndexOf('-') + 1);
-                const extTs = parseInt(extSuffix);
-
-                if (!isNaN(noteSuffixTs) && !isNaN(extTs)) {
-                  // Check if they represent the same slot (with 65m drift tolerance for TZ)
-                  if (Math.abs(noteSuffixTs - extTs) < 65 * 60 * 1000) {
-                    externalMatch = extEvent;
-                    break;
-                  }
-
-                  // Fallback: Component match
-                  const d1 = new Date(noteSuffixTs);
-                  const d2 = new Date(extTs);
-                  if (
-                    d1.getUTCHours() === d2.getUTCHours() &&
-                    d1.getUTCMinutes() === d2.getUTCMinutes() &&
-                    d1.getUTCDate() === d2.getUTCDate()
-                  ) {
-                    externalMatch = extEvent;
-                    break;
-                  }
-                }
-              }
-            }
-          }
+          // Same id/UID matching as sync, resolved once per render through the shared index
+          externalMatch = entryFile ? eventsByNotePath.get(entryFile.path) : undefined;
         } else {
           // No googleEventId, try fuzzy match by Title + Start Time
           // This handles cases where the user created a note manually for an event but didn't link it via ID
@@ -894,6 +868,10 @@ export class CalendarView extends BasesView {
         continue;
       }
 
+      if (extEvent.myPartstat === "declined" && this.plugin.settings.hideDeclinedEvents) {
+        continue;
+      }
+
       const lowerTitle = (extEvent.title || "").toLowerCase();
       if (this.externalCalendarFilterTerms.some((term) => term && lowerTitle.includes(term))) {
         continue;
@@ -918,7 +896,13 @@ export class CalendarView extends BasesView {
         externalEvent: extEvent,
         color: this.plugin.getCalendarColor(extEvent.sourceUrl || ""),
         isHidden,
-        cssClasses: ["bases-calendar-event", "is-external"],
+        cssClasses: [
+          "bases-calendar-event",
+          "is-external",
+          ...(extEvent.status === "tentative" ? ["is-tentative"] : []),
+          ...(extEvent.transparency === "transparent" ? ["is-free"] : []),
+          ...(extEvent.myPartstat ? [`is-rsvp-${extEvent.myPartstat}`] : []),
+        ],
       });
     }
 
@@ -951,35 +935,65 @@ export class CalendarView extends BasesView {
   }
 
   private async refreshExternalEvents(start: Date, end: Date): Promise<void> {
-    if (this.isFetchingExternalEvents || this.externalCalendarUrls.length === 0) {
+    if (this.externalCalendarUrls.length === 0) {
       return;
     }
 
-    this.isFetchingExternalEvents = true;
+    // Days only: without a selected date the range moves with the clock on every update
+    const range = `${start.toISOString().slice(0, 10)}-${end.toISOString().slice(0, 10)}`;
+    if (this.externalFetch) {
+      if (this.externalFetch.range === range) return;
+      // Results for the old range would be replaced anyway; stop parsing them
+      this.externalFetch.controller.abort();
+    }
+    const controller = new AbortController();
+    const { signal } = controller;
+    this.externalFetch = { range, controller };
 
     try {
-      const externalPromises = this.externalCalendarUrls.map((url, index) => {
+      this.externalCalendarService.setIdentityEmails(this.plugin.settings.identityEmails ?? []);
+      const visibleUrls = this.externalCalendarUrls.filter((url, index) => {
         // Check visibility toggle from view options
         // Default to true if not set (to match getViewOptions default)
         const showKey = `showExternal_${index}`;
         const isVisible = this.config.get(showKey);
 
         // config.get returns string "false" or boolean false for dropdowns/toggles
-        if (isVisible === "false" || isVisible === false) {
-          return Promise.resolve([]);
+        return isVisible !== "false" && isVisible !== false;
+      });
+
+      // First load: show the feeds stored on disk while the network requests run
+      if (this.lastExternalFetch === 0 && this.cachedExternalEvents.length === 0) {
+        const stored = await Promise.all(
+          visibleUrls.map((url) => this.externalCalendarService.fetchStoredEvents(url, start, end, signal)),
+        );
+        if (signal.aborted) return;
+        if (stored.some((events) => events.length > 0)) {
+          this.cachedExternalEvents = stored.flat();
+          this.updateCalendar();
         }
+      }
 
-        return this.externalCalendarService.fetchEvents(url, start, end);
-      });
+      const externalPromises = visibleUrls.map((url) =>
+        this.externalCalendarService.fetchEventsWithStatus(url, start, end, false, signal),
+      );
 
       const results = await Promise.allSettled(externalPromises);
+      if (signal.aborted) return;
       const newEvents: ExternalCalendarEvent[] = [];
 
-      for (const result of results) {
-        if (result.status === "fulfilled") {
-          newEvents.push(...result.value);
+      results.forEach((result, index) => {
+        if (result.status === "fulfilled" && (result.value.ok || result.value.stale)) {
+          newEvents.push(...result.value.events);
+          return;
         }
-      }
+        // Failed with nothing stored on disk: keep what this calendar showed before
+        const sourceUrl =
+          result.status === "fulfilled"
+            ? result.value.url
+            : this.externalCalendarService.normalizeUrl(visibleUrls[index]);
+        newEvents.push(...this.cachedExternalEvents.filter((event) => event.sourceUrl === sourceUrl));
+      });
 
       this.cachedExternalEvents = newEvents;
       this.lastExternalFetch = Date.now();
@@ -988,7 +1002,9 @@ export class CalendarView extends BasesView {
     } catch (error) {
       logger.error("[CalendarView] Error fetching external events:", error);
     } finally {
-      this.isFetchingExternalEvents = false;
+      if (this.externalFetch?.controller === controller) {
+        this.externalFetch = null;
+      }
     }
   }
 
@@ -1023,22 +1039,37 @@ export class CalendarView extends BasesView {
 
   private async handleCreateMeetingNote(event: ExternalCalendarEvent): Promise<void> {
     try {
+      // A note may already exist outside this base (other folder, filtered out); open it instead of duplicating
+      const existing = this.plugin.eventNoteIndex.findMatch(event);
+      if (existing) {
+        const leaf = this.app.workspace.getLeaf('split', 'vertical');
+        await leaf.openFile(existing.file);
+        return;
+      }
+
       const startField = this.getNoteField(this.startDateProp);
       const endField = this.getNoteField(this.endDateProp);
 
 
 
-      const calendarTag = event.sourceUrl ? this.plugin.getCalendarTag(event.sourceUrl) : null;
+      const calendar = event.sourceUrl ? this.plugin.getCalendarSyncOptions(event.sourceUrl) : null;
+      const mappings = this.plugin.settings.frontmatterMappings ?? [];
+      const people = this.plugin.peopleResolver;
+      people.refresh();
+      await people.ensureStubs(collectLinkedPeople(event, mappings));
 
       const file = await createMeetingNoteFromExternalEvent(
         this.app,
         event,
-        this.newEventTemplate,
-        this.newEventFolder,
+        calendar?.template ?? this.newEventTemplate,
+        calendar?.folder ?? this.newEventFolder,
         startField,
         endField,
         this.useEndDuration,
-        calendarTag
+        calendar?.tag ?? null,
+        calendar?.filenamePattern ?? this.plugin.settings.meetingNoteFilenamePattern ?? null,
+        calendar?.name ?? null,
+        buildMappedFrontmatter(event, mappings, undefined, (person) => people.link(person))
       );
 
       if (file) {
@@ -2234,6 +2265,9 @@ export class CalendarView extends BasesView {
 
     // Optimistic UI Update
     const entryIndex = this.entries.findIndex(e => e.entry.file.path === file.path);
+    // Copy before the optimistic update below overwrites its dates
+    const currentEvent = this.entries[entryIndex]?.externalEvent;
+    const linkedEvent = currentEvent ? { ...currentEvent } : null;
     if (entryIndex !== -1) {
       this.entries[entryIndex].startDate = newStart;
       this.entries[entryIndex].endDate = newEnd;
@@ -2298,6 +2332,17 @@ export class CalendarView extends BasesView {
 
       // The metadata change handler will trigger a refresh automatically via onDataUpdated
       // We don't need to manually schedule a refresh here as it can cause conflicts
+
+      if (linkedEvent?.sourceUrl && this.plugin.isCalendarWriteBackEnabled(linkedEvent.sourceUrl)) {
+        const duration = linkedEvent.endDate.getTime() - linkedEvent.startDate.getTime();
+        await this.writeBackToCalendar(
+          file,
+          linkedEvent,
+          newStart,
+          newEnd ?? new Date(newStart.getTime() + duration),
+          allDay ?? linkedEvent.isAllDay,
+        );
+      }
     } catch (e) {
       logger.error("Failed to update frontmatter", e);
       this.pendingUpdates.delete(file.path); // Cleanup on error
@@ -2305,6 +2350,93 @@ export class CalendarView extends BasesView {
     }
   }
 
+  /**
+   * Pushes a moved meeting note to its CalDAV event. On a 412 the user picks between
+   * overwriting the server's newer version and taking it into the note.
+   */
+  private async writeBackToCalendar(
+    file: TFile,
+    event: ExternalCalendarEvent,
+    start: Date,
+    end: Date,
+    allDay: boolean,
+  ): Promise<void> {
+    let result = await this.externalCalendarService.rescheduleCalDavEvent(event, start, end, allDay);
+
+    if (result.conflict) {
+      const overwrite = await this.promptWriteBackConflict(event);
+      if (!overwrite) {
+        await this.restoreRemoteTimes(file, event, start, end);
+        return;
+      }
+      result = await this.externalCalendarService.rescheduleCalDavEvent(event, start, end, allDay);
+    }
+
+    if (!result.ok) {
+      new Notice(
+        result.conflict
+          ? `"${event.title}" changed on the server again; the calendar was not updated.`
+          : `Could not update "${event.title}" in the calendar: ${result.error}`,
+      );
+      return;
+    }
+
+    // The calendar now agrees with the note; without this the next sync sees a local edit
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      writeSyncSnapshot(frontmatter, { ...event, startDate: start, endDate: end });
+    });
+  }
+
+  private promptWriteBackConflict(event: ExternalCalendarEvent): Promise<boolean> {
+    return new Promise<boolean>((resolve) => {
+      let choice = false;
+      const modal = new Modal(this.app);
+      modal.contentEl.createEl('h3', { text: 'Event changed in the calendar' });
+      modal.contentEl.createEl('p', {
+        text: `"${event.title}" was changed on the server after it was last synced. Overwrite it with the new time from this note, or take the calendar's version?`,
+      });
+
+      const buttonContainer = modal.contentEl.createDiv({ cls: 'modal-button-container' });
+      buttonContainer.style.marginTop = '20px';
+      buttonContainer.style.display = 'flex';
+      buttonContainer.style.gap = '10px';
+      buttonContainer.style.justifyContent = 'flex-end';
+
+      const overwriteBtn = buttonContainer.createEl('button', { text: 'Overwrite calendar', cls: 'mod-warning' });
+      overwriteBtn.addEventListener('click', () => {
+        choice = true;
+        modal.close();
+      });
+
+      const keepBtn = buttonContainer.createEl('button', { text: 'Use calendar version', cls: 'mod-cta' });
+      keepBtn.addEventListener('click', () => modal.close());
+
+      // Closing with Escape counts as "use calendar version": never overwrite without an explicit choice
+      modal.onClose = () => resolve(choice);
+      modal.open();
+    });
+  }
+
+  private async restoreRemoteTimes(file: TFile, event: ExternalCalendarEvent, start: Date, end: Date): Promise<void> {
+    if (!event.sourceUrl) return;
+    const dayMs = 24 * 60 * 60 * 1000;
+    const from = new Date(Math.min(start.getTime(), event.startDate.getTime()) - 30 * dayMs);
+    const to = new Date(Math.max(end.getTime(), event.endDate.getTime()) + 30 * dayMs);
+
+    this.externalCalendarService.clearCache();
+    const events = await this.externalCalendarService.fetchEvents(event.sourceUrl, from, to);
+    const remote = events.find((candidate) => candidate.id === event.id);
+    if (!remote) {
+      new Notice(`Could not find the calendar's version of "${event.title}"; the next sync will update the note.`);
+      return;
+    }
+
+    await this.syncNoteToEvent(file, remote);
+    await this.app.fileManager.processFrontMatter(file, (frontmatter) => {
+      writeSyncSnapshot(frontmatter, remote);
+    });
+  }
+
   private async syncNoteToEvent(file: TFile, event: ExternalCalendarEvent): Promise<void> {
     const startField = this.getNoteField(this.startDateProp);
     const endField = this.getNoteField(this.endDateProp);
@@ -2845,6 +2977,15 @@ export class CalendarView extends BasesView {
     this.updateCalendar();
   }
 
+  /**
+   * Refetches external events now instead of waiting for the next throttled fetch.
+   */
+  public reloadExternalEvents(clearCache = false): void {
+    if (clearCache) this.externalCalendarService.clearCache();
+    this.lastExternalFetch = 0;
+    this.updateCalendar();
+  }
+
   static getOptions(): ViewOption[] {
     return [
       {
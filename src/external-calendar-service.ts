@@ -1,6 +1,37 @@
-import ICAL from 'ical.js';
-import { requestUrl, moment } from 'obsidian';
+import { DataAdapter, normalizePath, requestUrl } from 'obsidian';
 import * as logger from "./logger";
+import { CalDavClient } from "./services/caldav-client";
+import { rescheduleEventData } from "./services/ical-reschedule";
+import { FeedCache, StoredFeed } from "./services/feed-cache";
+import { ICalParseRequest } from "./services/ical-parser";
+import { ICalParserClient } from "./services/ical-parser-client";
+
+/**
+ * Organizer or attendee as listed in the feed. Either field may be empty.
+ */
+export interface ExternalCalendarPerson {
+  name: string;
+  email: string;
+}
+
+/** ROLE parameter, lowercased without the `-participant` suffix. REQ-PARTICIPANT is the iCal default. */
+export type AttendeeRole = 'chair' | 'required' | 'optional' | 'non-participant';
+/** PARTSTAT parameter, lowercased. NEEDS-ACTION is the iCal default. */
+export type ParticipationStatus = 'needs-action' | 'accepted' | 'declined' | 'tentative' | 'delegated';
+
+/** STATUS of the event itself, lowercased. Events without STATUS count as confirmed. */
+export type ExternalEventStatus = 'confirmed' | 'tentative' | 'cancelled';
+/** TRANSP: transparent events show the time as free and do not block it. */
+export type ExternalEventTransparency = 'opaque' | 'transparent';
+
+export interface ExternalCalendarAttendee extends ExternalCalendarPerson {
+  role: AttendeeRole;
+  partstat: ParticipationStatus;
+  /** RSVP=TRUE: the organizer asked for a reply */
+  rsvp: boolean;
+  /** CUTYPE=ROOM or RESOURCE, e.g. a meeting room booked through the invite */
+  isResource: boolean;
+}
 
 export interface ExternalCalendarEvent {
   id: string;
@@ -12,55 +43,176 @@ export interface ExternalCalendarEvent {
   sourceUrl?: string;
   location?: string;
   organizer?: string;
+  organizerEmail?: string;
   attendees?: string[];
+  /** Same people as `attendees`, with email, role and reply status */
+  attendeeDetails?: ExternalCalendarAttendee[];
+  /** The user's own reply, when one of the identity emails is invited or organizes the event */
+  myPartstat?: ParticipationStatus;
   isAllDay: boolean;
+  /** Occurrence of a repeating series, including moved instances */
+  isRecurring?: boolean;
   url?: string;
+  status?: ExternalEventStatus;
+  transparency?: ExternalEventTransparency;
   isCancelled?: boolean;
 }
 
+export interface ExternalCalendarFetchResult {
+  url: string;
+  ok: boolean;
+  events: ExternalCalendarEvent[];
+  error?: string;
+  /** The fetch failed and `events` come from the feed copy stored on disk */
+  stale?: boolean;
+}
+
+export interface CalDavWriteResult {
+  ok: boolean;
+  /** The event changed on the server since it was read; trying again writes over the server's current version */
+  conflict?: boolean;
+  error?: string;
+}
+
+/**
+ * `ics`: the URL is downloaded whole. `caldav`: the URL is a CalDAV calendar collection queried by time range.
+ * `file`: the "URL" is the vault path of an .ics file.
+ */
+export type ExternalCalendarSourceType = 'ics' | 'caldav' | 'file';
+
+export interface ExternalCalendarServiceOptions {
+  /** Extra headers (usually Authorization) for a calendar, looked up by its configured URL */
+  getAuthHeaders?: (calendarUrl: string) => Record<string, string>;
+  getSourceType?: (calendarUrl: string) => ExternalCalendarSourceType;
+  /** Zone for feeds whose times carry no usable TZID; empty means local time */
+  getAssumedTimezone?: (calendarUrl: string) => string;
+  /** Stores feed bodies between fetches and restarts; without it every fetch downloads the full feed */
+  feedCache?: FeedCache;
+  /** Needed for `file` sources; usually `app.vault.adapter` */
+  fileAdapter?: Pick<DataAdapter, 'stat' | 'read'>;
+}
+
 export class ExternalCalendarService {
   private cache: Map<string, { events: ExternalCalendarEvent[]; expiry: number }> = new Map();
   private readonly CACHE_TTL = 5 * 60 * 1000; // 5 minutes
-  public static warnedZones: Set<string> = new Set();
+  private identityEmails: string[] = [];
+  private getAuthHeaders: (calendarUrl: string) => Record<string, string>;
+  private getSourceType: (calendarUrl: string) => ExternalCalendarSourceType;
+  private getAssumedTimezone: (calendarUrl: string) => string;
+  private caldav: CalDavClient;
+  private fileAdapter: Pick<DataAdapter, 'stat' | 'read'> | null;
+  private feedCache: FeedCache | null;
+  /** Parsed vault files per range, reused until the file's mtime changes */
+  private fileVersions: Map<string, { mtime: number; events: ExternalCalendarEvent[] }> = new Map();
+  /** Parses and expands feeds in a worker, or on this thread where workers are unavailable */
+  private parser: ICalParserClient = new ICalParserClient();
+  /** Parsed CalDAV results per range, reused while the calendar's ctag is unchanged */
+  private caldavVersions: Map<string, { ctag: string; events: ExternalCalendarEvent[] }> = new Map();
+
+  constructor(options: ExternalCalendarServiceOptions = {}) {
+    this.getAuthHeaders = options.getAuthHeaders ?? (() => ({}));
+    this.getSourceType = options.getSourceType ?? (() => 'ics');
+    this.getAssumedTimezone = options.getAssumedTimezone ?? (() => '');
+    this.caldav = new CalDavClient((url) => this.getAuthHeaders(url));
+    this.fileAdapter = options.fileAdapter ?? null;
+    this.feedCache = options.feedCache ?? null;
+  }
+
+  /**
+   * Addresses that belong to the user, used to fill `myPartstat`. Cached events are dropped when the list changes.
+   */
+  setIdentityEmails(emails: string[]): void {
+    const normalized = emails.map((email) => email.trim().toLowerCase()).filter(Boolean);
+    if (normalized.join(',') === this.identityEmails.join(',')) return;
+    this.identityEmails = normalized;
+    this.clearCache();
+  }
 
   async fetchEvents(
     calendarUrl: string,
     rangeStart?: Date,
     rangeEnd?: Date,
-    includeCancelled: boolean = false
+    includeCancelled = false,
+    signal?: AbortSignal
   ): Promise<ExternalCalendarEvent[]> {
+    const result = await this.fetchEventsWithStatus(calendarUrl, rangeStart, rangeEnd, includeCancelled, signal);
+    return result.events;
+  }
+
+  /**
+   * Same as fetchEvents, but reports whether the feed was actually retrieved and parsed.
+   * Callers that remove notes for missing events must check `ok` first: an empty list
+   * from a failed fetch is not the same as an empty calendar. Aborting `signal` drops the
+   * parse if it has not finished and reports the source as failed.
+   */
+  async fetchEventsWithStatus(
+    calendarUrl: string,
+    rangeStart?: Date,
+    rangeEnd?: Date,
+    includeCancelled = false,
+    signal?: AbortSignal
+  ): Promise<ExternalCalendarFetchResult> {
     const normalizedUrl = this.normalizeUrl(calendarUrl);
     if (!normalizedUrl) {
-      return [];
+      return { url: calendarUrl, ok: false, events: [], error: 'Empty calendar URL' };
     }
 
-    const cacheKey = this.getCacheKey(normalizedUrl, rangeStart, rangeEnd, includeCancelled);
+    // The assumed timezone is part of the key so changing it re-parses instead of serving old times
+    const cacheKey = this.getCacheKey(normalizedUrl, rangeStart, rangeEnd, includeCancelled, this.getAssumedTimezone(calendarUrl));
+
+    // Vault files skip the time-based cache: a stat is cheap and edits should show up right away
+    if (this.getSourceType(calendarUrl) === 'file') {
+      return this.fetchFileEvents(normalizedUrl, cacheKey, rangeStart, rangeEnd, includeCancelled, signal);
+    }
 
     // Check cache
     const cached = this.cache.get(cacheKey);
     if (cached && Date.now() < cached.expiry) {
-      return cached.events;
+      return { url: normalizedUrl, ok: true, events: cached.events };
+    }
+
+    if (this.getSourceType(calendarUrl) === 'caldav') {
+      return this.fetchCalDavEvents(normalizedUrl, cacheKey, rangeStart, rangeEnd, includeCancelled, signal);
     }
 
+    let stored: StoredFeed | null = null;
     try {
-      const response = await requestUrl({
-        url: normalizedUrl,
-        method: 'GET',
-        headers: {
-          // Some calendar providers expect an explicit calendar Accept header
-          Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.8',
-        },
-      });
+      stored = (await this.feedCache?.get(normalizedUrl)) ?? null;
+      let response = await this.requestFeed(normalizedUrl, calendarUrl, stored);
+      if (response.status === 304 && !stored) {
+        // Nothing stored to reuse (e.g. a cache along the way answered); ask for the full feed
+        response = await this.requestFeed(normalizedUrl, calendarUrl, null, true);
+      }
 
-      if (response.status !== 200) {
+      let body = response.text;
+      if (response.status === 304 && stored) {
+        // Unchanged since the stored copy; skip the download
+        body = stored.body;
+      } else if (response.status !== 200) {
         logger.error('[ExternalCalendar] Failed to fetch calendar:', response.status);
-        return [];
+        const error = response.status === 401 || response.status === 403
+          ? `HTTP ${response.status} (check the calendar's authentication settings)`
+          : `HTTP ${response.status}`;
+        return this.staleResult(normalizedUrl, calendarUrl, stored, error, rangeStart, rangeEnd, includeCancelled, signal);
       }
 
-      const events = this.parseICalData(response.text, rangeStart, rangeEnd, includeCancelled).map((evt) => ({
-        ...evt,
-        sourceUrl: normalizedUrl,
-      }));
+      // Login pages and proxies often answer 200 with HTML; that is not an empty calendar
+      if (!body || !body.toUpperCase().includes('BEGIN:VCALENDAR')) {
+        logger.error('[ExternalCalendar] Response is not iCal data:', normalizedUrl);
+        return this.staleResult(normalizedUrl, calendarUrl, stored, 'Response is not iCal data', rangeStart, rangeEnd, includeCancelled, signal);
+      }
+
+      if (response.status === 200 && this.feedCache) {
+        await this.feedCache.set({
+          url: normalizedUrl,
+          etag: this.readHeader(response.headers, 'etag'),
+          lastModified: this.readHeader(response.headers, 'last-modified'),
+          body,
+          fetchedAt: Date.now(),
+        });
+      }
+
+      const events = await this.parseFeed(body, normalizedUrl, calendarUrl, rangeStart, rangeEnd, includeCancelled, signal);
 
       // Cache the results
       this.cache.set(cacheKey, {
@@ -68,506 +220,290 @@ export class ExternalCalendarService {
         expiry: Date.now() + this.CACHE_TTL,
       });
 
-      return events;
+      return { url: normalizedUrl, ok: true, events };
     } catch (error) {
       logger.error('[ExternalCalendar] Error fetching calendar:', error);
-      return [];
+      const message = error instanceof Error ? error.message : String(error);
+      return this.staleResult(normalizedUrl, calendarUrl, stored, message, rangeStart, rangeEnd, includeCancelled, signal);
     }
   }
 
-  private parseICalData(
-    icalData: string,
-    rangeStart?: Date,
-    rangeEnd?: Date,
-    includeCancelled: boolean = false
-  ): ExternalCalendarEvent[] {
+  /**
+   * GET for an .ics feed, conditional on the stored copy's validators when there is one.
+   * `bypassCache` asks caches between here and the server for a full response.
+   */
+  private requestFeed(normalizedUrl: string, calendarUrl: string, stored: StoredFeed | null, bypassCache = false) {
+    return requestUrl({
+      url: normalizedUrl,
+      method: 'GET',
+      headers: {
+        // Some calendar providers expect an explicit calendar Accept header
+        Accept: 'text/calendar, text/plain;q=0.9, */*;q=0.8',
+        ...(stored?.etag ? { 'If-None-Match': stored.etag } : {}),
+        ...(stored?.lastModified ? { 'If-Modified-Since': stored.lastModified } : {}),
+        ...(bypassCache ? { 'Cache-Control': 'no-cache' } : {}),
+        ...this.getAuthHeaders(calendarUrl),
+      },
+      throw: false,
+    });
+  }
+
+  /**
+   * Result for a feed that could not be fetched. Carries the stored copy's events, marked stale,
+   * so views keep showing the calendar offline; `ok` stays false so sync does not act on them.
+   */
+  private async staleResult(
+    normalizedUrl: string,
+    calendarUrl: string,
+    stored: StoredFeed | null,
+    error: string,
+    rangeStart: Date | undefined,
+    rangeEnd: Date | undefined,
+    includeCancelled: boolean,
+    signal?: AbortSignal
+  ): Promise<ExternalCalendarFetchResult> {
+    if (!stored || signal?.aborted) {
+      return { url: normalizedUrl, ok: false, events: [], error };
+    }
     try {
-      if (!icalData || typeof icalData !== 'string') {
-        return [];
-      }
+      const events = await this.parseFeed(stored.body, normalizedUrl, calendarUrl, rangeStart, rangeEnd, includeCancelled, signal);
+      return { url: normalizedUrl, ok: false, stale: true, events, error };
+    } catch (parseError) {
+      logger.warn('[ExternalCalendar] Could not parse stored feed:', parseError);
+      return { url: normalizedUrl, ok: false, events: [], error };
+    }
+  }
 
-      const trimmed = icalData.trim();
-      if (!trimmed.toUpperCase().includes('BEGIN:VCALENDAR')) {
-        return [];
-      }
+  private async parseFeed(
+    body: string,
+    normalizedUrl: string,
+    calendarUrl: string,
+    rangeStart: Date | undefined,
+    rangeEnd: Date | undefined,
+    includeCancelled: boolean,
+    signal?: AbortSignal
+  ): Promise<ExternalCalendarEvent[]> {
+    const parsed = await this.parseICalData(
+      body,
+      { rangeStart, rangeEnd, includeCancelled, feedKey: normalizedUrl, assumeTimezone: this.getAssumedTimezone(calendarUrl) },
+      signal
+    );
+    return parsed.map((evt) => ({
+      ...evt,
+      sourceUrl: normalizedUrl,
+    }));
+  }
 
-      const jcalData = ICAL.parse(icalData);
-      const comp = new ICAL.Component(jcalData);
-      const vevents = comp.getAllSubcomponents('vevent');
-
-      const events: ExternalCalendarEvent[] = [];
-      const windowStart = rangeStart ? ICAL.Time.fromJSDate(rangeStart) : null;
-
-      // Pass 1: Parse all events and index exceptions
-      // We map UID -> Array of Recurrence-ID Times (ICAL.Time objects)
-      // We use the native ICAL.Time object for comparison to handle timezones correctly
-      const exceptions = new Map<string, ICAL.Time[]>();
-      const parsedEvents: { event: ICAL.Event; vevent: ICAL.Component }[] = [];
-
-      for (const vevent of vevents) {
-        try {
-          const event = new ICAL.Event(vevent);
-          parsedEvents.push({ event, vevent });
-
-          if (event.recurrenceId) {
-            const uid = event.uid;
-            if (!exceptions.has(uid)) {
-              exceptions.set(uid, []);
-            }
-            exceptions.get(uid)?.push(event.recurrenceId);
-          }
-        } catch (e) {
-          logger.warn('[ExternalCalendar] Error pre-parsing event:', e);
+  /**
+   * CalDAV variant of fetchEventsWithStatus: a calendar-query REPORT for the range, skipped
+   * entirely while the collection's ctag matches the last fetch of the same range.
+   */
+  private async fetchCalDavEvents(
+    calendarUrl: string,
+    cacheKey: string,
+    rangeStart: Date | undefined,
+    rangeEnd: Date | undefined,
+    includeCancelled: boolean,
+    signal?: AbortSignal
+  ): Promise<ExternalCalendarFetchResult> {
+    try {
+      const ctag = await this.caldav.getCtag(calendarUrl);
+      const assumeTimezone = this.getAssumedTimezone(calendarUrl);
+      const previous = this.caldavVersions.get(cacheKey);
+      let events: ExternalCalendarEvent[];
+
+      if (ctag && previous?.ctag === ctag) {
+        events = previous.events;
+      } else {
+        const resources = await this.caldav.queryEvents(calendarUrl, rangeStart, rangeEnd);
+        // Each resource is its own VCALENDAR with the timezones it needs
+        const parsed = await Promise.all(
+          resources.map((resource) =>
+            this.parseICalData(
+              resource.data,
+              { rangeStart, rangeEnd, includeCancelled, feedKey: `${calendarUrl}::${resource.href}`, assumeTimezone },
+              signal
+            )
+          )
+        );
+        events = parsed.flat().map((evt) => ({ ...evt, sourceUrl: calendarUrl }));
+        if (ctag) {
+          this.caldavVersions.set(cacheKey, { ctag, events });
         }
       }
 
-            // Pass 2: Process events
-      for (const { event, vevent } of parsedEvents) {
-        try {
-          // Skip cancelled events (handle both spellings)
-          const status = this.extractString(vevent, 'status', '').toUpperCase();
-          const isCancelled = status === 'CANCELLED' || status === 'CANCELED';
-          
-          if (this.extractString(vevent, 'summary', '').toLowerCase().includes('jedi')) {
-             logger.log(`[ExternalCalendar] Found 'Jedi' event. Status: ${status}, IsCancelled: ${isCancelled}, UID: ${this.extractString(vevent, 'uid', '')}`);
-          }
-
-          if (isCancelled && !includeCancelled) {
-            continue;
-          }
-
-          const summary = this.extractString(vevent, 'summary', 'Untitled Event');
-          const description = this.extractString(vevent, 'description', '');
-          const location = this.extractString(vevent, 'location', '');
-          const uid = this.extractString(vevent, 'uid', `${event.startDate.toUnixTime()}`);
-          const url = this.extractString(vevent, 'url', '');
-
-          const organizer = this.extractOrganizer(vevent);
-          const attendees = this.extractAttendees(vevent);
-
-          // Extract the TZID from the DTSTART property directly
-          // This is our source of truth if ical.js fails to resolve the timezone
-          const dtstartProp = vevent.getFirstProperty('dtstart');
-          let explicitTzid: string | null = null;
-          if (dtstartProp) {
-            const tzidParam = dtstartProp.getParameter('tzid');
-            if (typeof tzidParam === 'string') {
-              explicitTzid = tzidParam.replace(/^["']|["']$/g, '');
-            }
-
-            // FORCE FLOATING logic (kept from original)
-            if (explicitTzid) {
-              const rawValue = dtstartProp.getFirstValue() as ICAL.Time;
-              if (rawValue && rawValue.zone && rawValue.zone.toString() !== 'floating') {
-                const floatingStart = new (ICAL.Time as any)({
-                  year: rawValue.year,
-                  month: rawValue.month,
-                  day: rawValue.day,
-                  hour: rawValue.hour,
-                  minute: rawValue.minute,
-                  second: rawValue.second,
-                  isDate: rawValue.isDate
-                });
-                event.startDate = floatingStart;
-
-                const dtendProp = vevent.getFirstProperty('dtend');
-                if (dtendProp) {
-                  const rawEndValue = dtendProp.getFirstValue() as ICAL.Time;
-                  if (rawEndValue && rawEndValue.zone && rawEndValue.zone.toString() !== 'floating') {
-                    const floatingEnd = new (ICAL.Time as any)({
-                      year: rawEndValue.year,
-                      month: rawEndValue.month,
-                      day: rawEndValue.day,
-                      hour: rawEndValue.hour,
-                      minute: rawEndValue.minute,
-                      second: rawEndValue.second,
-                      isDate: rawEndValue.isDate
-                    });
-                    event.endDate = floatingEnd;
-                  }
-                }
-              }
-            }
-          }
-
-          if (event.isRecurring()) {
-            const iterator = event.iterator(event.startDate);
-            let next: ICAL.Time | null = null;
-            let iterationCount = 0;
-            const MAX_ITERATIONS = 2000;
-
-            while ((next = iterator.next())) {
-              iterationCount++;
-              if (iterationCount > MAX_ITERATIONS) break;
-              if (rangeEnd && next.compare(ICAL.Time.fromJSDate(rangeEnd)) > 0) break;
-
-              // Check if this occurrence is overridden by an exception
-              const eventUid = event.uid;
-              if (exceptions.has(eventUid) && next) {
-                const exceptionTimes = exceptions.get(eventUid);
-                
-                // Enhanced Exception Matching
-                // We compare based on Time Value (seconds since epoch) to handle timezone differences correctly.
-                // However, ical.js compare() should do this.
-                // We add a fallback comparison for "Floating" vs "UTC" scenarios which might drift.
-                
-                const isException = exceptionTimes?.some(exTime => {
-                    // 1. Standard strict comparison (handles TZ conversion)
-                    if (exTime.compare(next!) === 0) return true;
-                    
-                    // 2. Loose comparison (ISO string match ignoring zone if one is floating)
-                    // If one is floating and the other isn't, conversion might shift the time if not careful.
-                    // But ical.js usually handles floating as "local".
-                    
-                    // 3. Fallback: Compare Unix Time explicitly
-                    const t1 = exTime.toUnixTime();
-                    const t2 = next!.toUnixTime();
-                    if (Math.abs(t1 - t2) < 60) return true; // Match within 1 minute tolerance
-
-                    // 4. Fallback: Component-wise comparison (Ignore Timezone)
-                    // If the RECURRENCE-ID implies "1pm" and the occurrence is "1pm", we treat them as matched.
-                    // This fixes issues where one is Floating and the other is Zoned.
-                    if (
-                        exTime.year === next!.year &&
-                        exTime.month === next!.month &&
-                        exTime.day === next!.day &&
-                        exTime.hour === next!.hour &&
-                        exTime.minute === next!.minute
-                    ) {
-                        return true;
-                    }
-                    
-                    return false;
-                });
-
-                if (isException) {
-                  // logger.log(`[ExternalCalendar] Skipping exception for ${event.summary} at ${next}`);
-                  continue; // Skip this occurrence
-                }
-              }
-
-              const occurrence = event.getOccurrenceDetails(next);
-
-              const startDate = this.normalizeTime(occurrence.startDate, explicitTzid);
-              const endDate = this.normalizeTime(occurrence.endDate, explicitTzid);
-
-              this.pushEvent(
-                events,
-                startDate,
-                endDate,
-                occurrence.startDate.isDate,
-                { uid, summary, description, location, organizer, attendees, url, isCancelled },
-                rangeStart,
-                rangeEnd
-              );
-            }
-          } else {
-            const end = event.endDate ?? event.startDate.clone();
-            if (!event.endDate && event.duration) {
-              end.addDuration(event.duration);
-            }
-
-            const startDate = this.normalizeTime(event.startDate, explicitTzid);
-            const endDate = this.normalizeTime(end, explicitTzid);
-
-            // STABLE ID GENERATION
-            // For single events, use UID directly so hiding persists across rescheduling.
-            // For exceptions, use UID + RecurrenceID (Original Time) which is also stable.
-            let stableId: string | undefined;
-            if (event.recurrenceId) {
-                const rid = event.recurrenceId.toJSDate().getTime();
-                stableId = `${uid}-${rid}`;
-            } else {
-                stableId = uid;
-            }
-
-            this.pushEvent(
-              events,
-              startDate,
-              endDate,
-              event.startDate.isDate,
-              { uid, id: stableId, summary, description, location, organizer, attendees, url, isCancelled },
-              rangeStart,
-              rangeEnd
-            );
-          }
-        } catch (innerError) {
-          logger.warn('[ExternalCalendar] Error parsing single event:', innerError);
-          continue;
-        }
-      }
+      this.cache.set(cacheKey, {
+        events,
+        expiry: Date.now() + this.CACHE_TTL,
+      });
 
-      return events;
+      return { url: calendarUrl, ok: true, events };
     } catch (error) {
-      logger.error('[ExternalCalendar] Error parsing iCal data:', error);
-      return [];
+      logger.error('[ExternalCalendar] Error querying CalDAV calendar:', error);
+      return {
+        url: calendarUrl,
+        ok: false,
+        events: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
     }
   }
 
-  // Mapping for common Windows/Outlook timezone names to IANA identifiers
-  private readonly WINDOWS_TZ_MAPPING: Record<string, string> = {
-    'Central Standard Time': 'America/Chicago',
-    'Eastern Standard Time': 'America/New_York',
-    'Pacific Standard Time': 'America/Los_Angeles',
-    'Mountain Standard Time': 'America/Denver',
-    'India Standard Time': 'Asia/Kolkata',
-    'China Standard Time': 'Asia/Shanghai',
-    'Tokyo Standard Time': 'Asia/Tokyo',
-    'GMT Standard Time': 'Europe/London',
-    'Romance Standard Time': 'Europe/Paris',
-    'W. Europe Standard Time': 'Europe/Berlin',
-  };
-
   /**
-   * Converts an ICAL.Time object to a native JavaScript Date object,
-   * strictly enforcing the timezone if provided.
+   * Events from the feed copy stored on disk, without touching the network. Lets a view render
+   * right after startup; returns an empty list when nothing is stored.
    */
-  private normalizeTime(icalTime: ICAL.Time, explicitTzid: string | null): Date {
-    // 1. All-day events are dates without times. ical.js handles these well as local dates.
-    if (icalTime.isDate) {
-      return icalTime.toJSDate();
+  async fetchStoredEvents(
+    calendarUrl: string,
+    rangeStart?: Date,
+    rangeEnd?: Date,
+    signal?: AbortSignal
+  ): Promise<ExternalCalendarEvent[]> {
+    const normalizedUrl = this.normalizeUrl(calendarUrl);
+    if (!normalizedUrl || !this.feedCache || this.getSourceType(calendarUrl) !== 'ics') return [];
+    try {
+      const stored = await this.feedCache.get(normalizedUrl);
+      if (!stored) return [];
+      return await this.parseFeed(stored.body, normalizedUrl, calendarUrl, rangeStart, rangeEnd, false, signal);
+    } catch (error) {
+      logger.warn('[ExternalCalendar] Could not parse stored feed:', error);
+      return [];
     }
+  }
 
-    // 2. If the time already has a proper timezone (not floating), use ical.js conversion
-    if (icalTime.zone && icalTime.zone.toString() !== 'floating' && !explicitTzid) {
-      return icalTime.toJSDate();
-    }
+  private readHeader(headers: Record<string, string> | undefined, name: string): string {
+    if (!headers) return '';
+    const key = Object.keys(headers).find((header) => header.toLowerCase() === name);
+    return key ? headers[key] : '';
+  }
 
-    // 3. Resolve the timezone ID
-    let targetTzid = explicitTzid;
-    if (targetTzid && this.WINDOWS_TZ_MAPPING[targetTzid]) {
-      targetTzid = this.WINDOWS_TZ_MAPPING[targetTzid];
+  /**
+   * Events from an .ics file in the vault, re-parsed only when the file's mtime changes.
+   */
+  private async fetchFileEvents(
+    path: string,
+    cacheKey: string,
+    rangeStart: Date | undefined,
+    rangeEnd: Date | undefined,
+    includeCancelled: boolean,
+    signal?: AbortSignal
+  ): Promise<ExternalCalendarFetchResult> {
+    if (!this.fileAdapter) {
+      return { url: path, ok: false, events: [], error: 'Vault files are not available' };
     }
 
-    // 4. If we have a valid target TZID and moment-timezone is available, use it.
-    if (targetTzid && (moment as any).tz && (moment as any).tz.zone(targetTzid)) {
-      // Construct ISO string manually to avoid any ical.js timezone logic
-      // This ensures we take the "face value" of the time (e.g. 08:15) and assign the timezone
-      // IMPORTANT: icalTime.month is 1-indexed (1=January, 12=December)
-      const pad = (n: number) => String(n).padStart(2, '0');
-      const isoString = `${icalTime.year}-${pad(icalTime.month)}-${pad(icalTime.day)}T${pad(icalTime.hour)}:${pad(icalTime.minute)}:${pad(icalTime.second)}`;
-
-      const m = (moment as any).tz(isoString, targetTzid);
-
-      if (m.isValid()) {
-        return m.toDate();
+    try {
+      const filePath = normalizePath(path);
+      const stat = await this.fileAdapter.stat(filePath);
+      if (!stat || stat.type !== 'file') {
+        return { url: path, ok: false, events: [], error: `File not found: ${filePath}` };
       }
 
-      if (!ExternalCalendarService.warnedZones.has(targetTzid)) {
-        logger.warn('[ExternalCalendar] moment-timezone conversion failed', {
-          isoString,
-          targetTzid,
-          fallback: 'using manual offset calculation'
-        });
-        ExternalCalendarService.warnedZones.add(targetTzid);
+      const previous = this.fileVersions.get(cacheKey);
+      if (previous && previous.mtime === stat.mtime) {
+        return { url: path, ok: true, events: previous.events };
       }
-    } else if (targetTzid) {
-      if (!ExternalCalendarService.warnedZones.has(targetTzid)) {
-        logger.warn('[ExternalCalendar] moment-timezone not available or zone not found', {
-          targetTzid,
-          momentTzAvailable: !!(moment as any).tz,
-          zoneExists: (moment as any).tz ? !!(moment as any).tz.zone(targetTzid) : false
-        });
-        ExternalCalendarService.warnedZones.add(targetTzid);
-      }
-    }
 
-    // 5. Fallback: Manual timezone offset calculation using Intl API
-    // This handles cases where moment-timezone doesn't have the zone data
-    if (targetTzid) {
-      try {
-        // Create a date string in the target timezone
-        // We interpret the icalTime components as being in the target timezone
-        const pad = (n: number) => String(n).padStart(2, '0');
-        const dateStr = `${icalTime.year}-${pad(icalTime.month)}-${pad(icalTime.day)}T${pad(icalTime.hour)}:${pad(icalTime.minute)}:${pad(icalTime.second)}`;
-
-        // Try to get the offset for this datetime in the target timezone
-        // This uses the Intl API which should be available in all modern browsers
-        const resolvedDate = this.parseDateInTimezone(dateStr, targetTzid);
-        if (resolvedDate) {
-          return resolvedDate;
-        }
-      } catch (error) {
-        logger.warn('[ExternalCalendar] Manual timezone offset calculation failed', {
-          targetTzid,
-          error: error instanceof Error ? error.message : String(error)
-        });
+      const text = await this.fileAdapter.read(filePath);
+      if (!text.toUpperCase().includes('BEGIN:VCALENDAR')) {
+        return { url: path, ok: false, events: [], error: 'File is not iCal data' };
       }
-    }
 
-    // 6. Final fallback: Use ical.js's conversion.
-    // Note: For floating times, this will interpret the time in the local timezone,
-    // which may not be correct if explicitTzid was set.
-    const fallbackResult = icalTime.toJSDate();
-    return fallbackResult;
+      // sourceUrl stays the configured path so color and tag lookups work as for URLs
+      const parsed = await this.parseICalData(
+        text,
+        { rangeStart, rangeEnd, includeCancelled, feedKey: filePath, assumeTimezone: this.getAssumedTimezone(path) },
+        signal
+      );
+      const events = parsed.map((evt) => ({
+        ...evt,
+        sourceUrl: path,
+      }));
+      this.fileVersions.set(cacheKey, { mtime: stat.mtime, events });
+      return { url: path, ok: true, events };
+    } catch (error) {
+      logger.error('[ExternalCalendar] Error reading calendar file:', error);
+      return {
+        url: path,
+        ok: false,
+        events: [],
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
   }
 
   /**
-   * Parse a date string as if it were in a specific timezone.
-   * Uses the Intl API to determine the offset.
+   * Moves a CalDAV event to new times with a PUT guarded by its ETag.
    */
-  private parseDateInTimezone(dateStr: string, tzid: string): Date | null {
-    try {
-      // Parse the components from the date string
-      const match = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/);
-      if (!match) return null;
-
-      const [, yearStr, monthStr, dayStr, hourStr, minuteStr, secondStr] = match;
-      const year = parseInt(yearStr);
-      const month = parseInt(monthStr);
-      const day = parseInt(dayStr);
-      const hour = parseInt(hourStr);
-      const minute = parseInt(minuteStr);
-      const second = parseInt(secondStr);
-
-      // We want to interpret these components as being in the target timezone
-      // and convert to a UTC Date object.
-
-      // Strategy: Create a date assuming it's in the target TZ, get its UTC string,
-      // parse that to get the real UTC date
-
-      // Best approach: Manually calculate using getTimezoneOffset equivalent for any TZ
-      try {
-        // Create a Date in UTC with our components
-        const utcDate = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
-
-        // Format it in the target timezone to see what time it shows
-        const formatter = new Intl.DateTimeFormat('en-US', {
-          timeZone: tzid,
-          year: 'numeric',
-          month: '2-digit',
-          day: '2-digit',
-          hour: '2-digit',
-          minute: '2-digit',
-          second: '2-digit',
-          hour12: false
-        });
-
-        const parts = formatter.formatToParts(utcDate);
-        const formatted: Record<string, string> = {};
-        for (const part of parts) {
-          if (part.type !== 'literal') {
-            formatted[part.type] = part.value;
-          }
-        }
-
-        // Now we know: when we have a UTC date with components (year, month, day, hour, minute, second),
-        // it displays as (formatted.year, formatted.month, ...) in the target timezone.
-
-        // We want the OPPOSITE: when the target  TZ shows (year, month, day, hour, minute, second),
-        // what is the UTC time?
-
-        // The offset is: (displayed_time) - (utc_time)
-        // So: UTC_time = displayed_time - offset
-        // And: offset = displayed_time - UTC_time
-
-        const displayedMs = Date.UTC(
-          parseInt(formatted.year),
-          parseInt(formatted.month) - 1,
-          parseInt(formatted.day),
-          parseInt(formatted.hour),
-          parseInt(formatted.minute),
-          parseInt(formatted.second)
-        );
-
-        const utcMs = utcDate.getTime();
-        const offset = displayedMs - utcMs;
-
-        // Now, our desired components (year, month, day, hour, minute, second) should display in the target TZ
-        // So the UTC time should be:
-        const desiredMs = Date.UTC(year, month - 1, day, hour, minute, second);
-        const correctUTC = desiredMs - offset;
-
-        return new Date(correctUTC);
+  async rescheduleCalDavEvent(
+    event: ExternalCalendarEvent,
+    start: Date,
+    end: Date,
+    allDay: boolean
+  ): Promise<CalDavWriteResult> {
+    const calendarUrl = event.sourceUrl;
+    if (!calendarUrl || this.getSourceType(calendarUrl) !== 'caldav') {
+      return { ok: false, error: 'Not a CalDAV calendar' };
+    }
 
-      } catch (e) {
-        // Intl API might not support the timezone
-        logger.warn('[ExternalCalendar] Intl API does not support timezone:', tzid);
-        return null;
+    try {
+      const resource = await this.caldav.findResource(calendarUrl, event.uid);
+      if (!resource) {
+        return { ok: false, error: 'Event not found on the server' };
       }
-
+      const data = rescheduleEventData(resource.data, event, start, end, allDay);
+      if (!data) {
+        return { ok: false, error: 'Only single events and already-moved occurrences can be rescheduled' };
+      }
+      if (await this.caldav.putResource(calendarUrl, resource, data) === 'conflict') {
+        return { ok: false, conflict: true };
+      }
+      // The ctag changed with our write; drop parsed results so the next fetch shows the new time
+      this.clearCache();
+      return { ok: true };
     } catch (error) {
-      return null;
+      logger.error('[ExternalCalendar] Error writing CalDAV event:', error);
+      return { ok: false, error: error instanceof Error ? error.message : String(error) };
     }
   }
 
-  private pushEvent(
-    events: ExternalCalendarEvent[],
-    startDate: Date,
-    endDate: Date,
-    isAllDay: boolean,
-    props: {
-      uid: string;
-      id?: string; // Optional override
-      summary: string;
-      description: string;
-      location: string;
-      organizer: string;
-      attendees: string[];
-      url: string;
-      isCancelled?: boolean;
-    },
-    rangeStart?: Date,
-    rangeEnd?: Date
-  ): void {
-    // Filter by range
-    if (rangeStart && startDate < rangeStart) return;
-    if (rangeEnd && startDate > rangeEnd) return;
-
-    events.push({
-      id: props.id || `${props.uid}-${startDate.getTime()}`,
-      uid: props.uid, // Populate UID
-      title: props.summary,
-      description: props.description,
-      startDate,
-      endDate,
-      location: props.location,
-      organizer: props.organizer,
-      attendees: props.attendees,
-      isAllDay,
-      url: props.url,
-      isCancelled: props.isCancelled,
-    });
-  }
-
-  private extractString(vevent: ICAL.Component, propName: string, fallback: string): string {
-    const val = vevent.getFirstPropertyValue(propName);
-    if (val === null || val === undefined) return fallback;
-    if (Array.isArray(val)) {
-      return val.map(String).join(', ');
-    }
-    return String(val);
-  }
-
-  private extractOrganizer(vevent: ICAL.Component): string {
-    const prop = vevent.getFirstProperty('organizer');
-    if (!prop) return '';
-    const cn = prop.getParameter('cn');
-    const cnStr = Array.isArray(cn) ? cn[0] : cn;
-    const val = prop.getFirstValue();
-    const email = Array.isArray(val) ? String(val[0]) : (typeof val === 'string' ? val : String(val));
-    return cnStr || email.replace('mailto:', '') || '';
+  /**
+   * Calendars available at a CalDAV server, principal or calendar home URL.
+   */
+  discoverCalDavCalendars(url: string) {
+    return this.caldav.discoverCalendars(url.trim());
   }
 
-  private extractAttendees(vevent: ICAL.Component): string[] {
-    const attendees: string[] = [];
-    const props = vevent.getAllProperties('attendee');
-    for (const prop of props) {
-      const cn = prop.getParameter('cn');
-      const cnStr = Array.isArray(cn) ? cn[0] : cn;
-      const val = prop.getFirstValue();
-      const email = Array.isArray(val) ? String(val[0]) : (typeof val === 'string' ? val : String(val));
-      const attendee = cnStr || email.replace('mailto:', '') || '';
-      if (attendee) attendees.push(attendee);
-    }
-    return attendees;
+  /**
+   * Events in the range from iCal text, parsed off the main thread when possible. A `feedKey`
+   * lets the parser keep the feed's components until its text changes.
+   */
+  private parseICalData(
+    icalData: string,
+    options: Omit<ICalParseRequest, 'text' | 'identityEmails'>,
+    signal?: AbortSignal
+  ): Promise<ExternalCalendarEvent[]> {
+    return this.parser.parse({ ...options, text: icalData, identityEmails: this.identityEmails }, signal);
   }
 
   clearCache(): void {
     this.cache.clear();
+    this.caldavVersions.clear();
+    this.fileVersions.clear();
+    this.parser.clear();
+  }
+
+  /**
+   * Stops the parser worker. Call when the owner of this service unloads.
+   */
+  dispose(): void {
+    this.parser.dispose();
   }
 
-  private normalizeUrl(url: string | null | undefined): string | null {
+  /**
+   * URL the feed is fetched and stored under: trimmed, with webcal:// turned into https://.
+   */
+  normalizeUrl(url: string | null | undefined): string | null {
     if (!url) return null;
     const trimmed = url.trim();
     if (!trimmed) return null;
@@ -577,9 +513,9 @@ export class ExternalCalendarService {
     return trimmed;
   }
 
-  private getCacheKey(url: string, rangeStart?: Date, rangeEnd?: Date, includeCancelled?: boolean): string {
+  private getCacheKey(url: string, rangeStart?: Date, rangeEnd?: Date, includeCancelled?: boolean, timezone?: string): string {
     const startKey = rangeStart ? rangeStart.toISOString().split('T')[0] : 'none';
     const endKey = rangeEnd ? rangeEnd.toISOString().split('T')[0] : 'none';
-    return `${url}::${startKey}::${endKey}::${includeCancelled}`;
+    return `${url}::${startKey}::${endKey}::${includeCancelled}::${timezone ?? ''}`;
   }
 }
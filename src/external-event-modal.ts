@@ -4,9 +4,19 @@ import {
   TFile,
   normalizePath,
 } from "obsidian";
-import { ExternalCalendarEvent } from "./external-calendar-service";
+import { ExternalCalendarEvent, ParticipationStatus } from "./external-calendar-service";
 import * as logger from "./logger";
 import { formatDateTimeForFrontmatter } from "./utils";
+import { writeSyncSnapshot } from "./services/sync-snapshot";
+import { ensureFolder, formatMeetingNoteName, joinFolder } from "./services/meeting-note-name";
+
+const PARTSTAT_LABELS: Record<ParticipationStatus, string> = {
+  accepted: "Accepted",
+  tentative: "Tentative",
+  declined: "Declined",
+  delegated: "Delegated",
+  "needs-action": "No reply",
+};
 
 export class ExternalEventModal extends Modal {
   private event: ExternalCalendarEvent;
@@ -43,6 +53,17 @@ export class ExternalEventModal extends Modal {
       text: this.formatEventTime(this.event.startDate, this.event.endDate, this.event.isAllDay),
     });
 
+    // Status and free/busy, only when they differ from a normal confirmed, busy event
+    const availability = [
+      this.event.status === "tentative" ? "Tentative" : this.event.status === "cancelled" ? "Cancelled" : "",
+      this.event.transparency === "transparent" ? "Shows as free" : "",
+    ].filter(Boolean);
+    if (availability.length > 0) {
+      const statusEl = detailsEl.createDiv({ cls: "external-event-field" });
+      statusEl.createEl("strong", { text: "Status: " });
+      statusEl.createSpan({ text: availability.join(", ") });
+    }
+
     // Location
     if (this.event.location) {
       const locationEl = detailsEl.createDiv({ cls: "external-event-field" });
@@ -55,10 +76,15 @@ export class ExternalEventModal extends Modal {
       const organizerEl = detailsEl.createDiv({ cls: "external-event-field" });
       organizerEl.createEl("strong", { text: "Organizer: " });
       organizerEl.createSpan({ text: this.event.organizer });
+      if (this.event.organizerEmail && this.event.organizerEmail !== this.event.organizer) {
+        organizerEl.createSpan({ text: ` <${this.event.organizerEmail}>`, cls: "external-event-email" });
+      }
     }
 
-    // Attendees
-    if (this.event.attendees && this.event.attendees.length > 0) {
+    // Attendees, grouped by reply when the feed has PARTSTAT
+    if (this.event.attendeeDetails && this.event.attendeeDetails.length > 0) {
+      this.renderAttendees(detailsEl);
+    } else if (this.event.attendees && this.event.attendees.length > 0) {
       const attendeesEl = detailsEl.createDiv({ cls: "external-event-field" });
       attendeesEl.createEl("strong", { text: "Attendees: " });
       attendeesEl.createSpan({ text: this.event.attendees.join(", ") });
@@ -117,6 +143,30 @@ export class ExternalEventModal extends Modal {
     closeBtn.addEventListener("click", () => this.close());
   }
 
+  private renderAttendees(detailsEl: HTMLElement) {
+    const attendees = this.event.attendeeDetails ?? [];
+    const attendeesEl = detailsEl.createDiv({ cls: "external-event-field" });
+    attendeesEl.createEl("strong", { text: `Attendees (${attendees.length}): ` });
+
+    const listEl = attendeesEl.createDiv({ cls: "external-event-attendees" });
+    for (const status of Object.keys(PARTSTAT_LABELS) as ParticipationStatus[]) {
+      const group = attendees.filter((attendee) => attendee.partstat === status);
+      if (group.length === 0) continue;
+
+      const groupEl = listEl.createDiv({ cls: `external-event-attendee-group is-${status}` });
+      groupEl.createSpan({ text: `${PARTSTAT_LABELS[status]}: `, cls: "external-event-attendee-status" });
+      groupEl.createSpan({
+        text: group
+          .map((attendee) => {
+            const label = attendee.name || attendee.email;
+            if (attendee.isResource) return `${label} (room)`;
+            return attendee.role === "optional" ? `${label} (optional)` : label;
+          })
+          .join(", "),
+      });
+    }
+  }
+
   onClose() {
     const { contentEl } = this;
     contentEl.empty();
@@ -156,7 +206,10 @@ export async function createMeetingNoteFromExternalEvent(
   startProperty: string | null,
   endProperty: string | null,
   useEndDuration: boolean,
-  calendarTag: string | null = null
+  calendarTag: string | null = null,
+  filenamePattern: string | null = null,
+  calendarName: string | null = null,
+  extraFrontmatter: Record<string, unknown> = {}
 ): Promise<TFile | null> {
   // Load template
   let templateContent = "";
@@ -169,8 +222,10 @@ export async function createMeetingNoteFromExternalEvent(
 
   // Build frontmatter object for fields we need to set
   const frontmatter: Record<string, any> = {
+    ...extraFrontmatter,
     title: event.title,
     googleEventId: event.id,
+    ...(event.sourceUrl ? { calendarUrl: event.sourceUrl } : {}),
   };
 
   if (startProperty) {
@@ -213,35 +268,26 @@ export async function createMeetingNoteFromExternalEvent(
     noteContent += `## Notes\n\n`;
   }
 
-  // Determine file path
-  const folder = folderPath ? normalizePath(folderPath) : "";
+  // Determine file path (the pattern may add subfolders below the meeting note folder)
+  const name = formatMeetingNoteName(filenamePattern, event, calendarName ?? "");
+  const baseName = name.baseName;
+  let folder = joinFolder(folderPath, name.folder);
 
   // Ensure folder exists
   if (folder) {
-    const folderFile = app.vault.getAbstractFileByPath(folder);
-    if (!folderFile) {
-      try {
-        await app.vault.createFolder(folder);
-      } catch (e) {
-        logger.error(`Failed to create folder ${folder}:`, e);
-        // Fallback to root if folder creation fails
-      }
+    try {
+      await ensureFolder(app, folder);
+    } catch (e) {
+      logger.error(`Failed to create folder ${folder}:`, e);
+      // Fallback to root if folder creation fails
+      folder = "";
     }
   }
 
-  const sanitizedTitle = event.title
-    .replace(/[\\/:*?"<>|]/g, "")
-    .replace(/\s+/g, " ")
-    .trim();
-
-  const dateSuffix = `${event.startDate.getFullYear()}-${String(
-    event.startDate.getMonth() + 1
-  ).padStart(2, "0")}-${String(event.startDate.getDate()).padStart(2, "0")}`;
-
-  let path = normalizePath(`${folder}/${sanitizedTitle} ${dateSuffix}.md`);
+  let path = normalizePath(`${folder}/${baseName}.md`);
   let counter = 1;
   while (app.vault.getAbstractFileByPath(path)) {
-    path = normalizePath(`${folder}/${sanitizedTitle} ${dateSuffix} ${counter}.md`);
+    path = normalizePath(`${folder}/${baseName} ${counter}.md`);
     counter++;
   }
 
@@ -269,6 +315,8 @@ export async function createMeetingNoteFromExternalEvent(
     delete fm.title;
     // Merge in our frontmatter fields
     Object.assign(fm, frontmatter);
+    // Remember what the calendar said so later syncs can spot local edits
+    writeSyncSnapshot(fm, event);
   });
 
   return file;
@@ -0,0 +1,8 @@
+/**
+ * `worker:<path>` imports are bundled separately by esbuild.config.mjs and resolve to the
+ * worker's source text.
+ */
+declare module "worker:*" {
+    const source: string;
+    export default source;
+}
@@ -1,4 +1,4 @@
-import { Notice, Plugin, PluginSettingTab, Setting } from "obsidian";
+import { Notice, Plugin, PluginSettingTab, Setting, normalizePath } from "obsidian";
 import { CalendarView, CalendarViewType } from "./calendar-view";
 import {
   DEFAULT_CONDENSE_LEVEL,
@@ -6,7 +6,53 @@ import {
   DEFAULT_STATUS_STYLE_MAP,
 } from "./utils";
 import { CalendarPluginBridge } from "./plugin-interface";
-import { AutoCreateService } from "./services/auto-create-service";
+import {
+  AutoCreateService,
+  AutoCreateSyncResult,
+  CalendarSyncOptions,
+  DEFAULT_REMOTE_FIELDS,
+  SYNC_OWNED_FIELDS,
+  SyncAction,
+  SyncConflictPolicy,
+  SyncOwnedField,
+} from "./services/auto-create-service";
+import { SyncScheduler } from "./services/sync-scheduler";
+import { EventNoteIndex } from "./services/event-note-index";
+import { PeopleResolver } from "./services/people-resolver";
+import {
+  CALENDAR_AUTH_OPTIONS,
+  CalendarAuthStore,
+  CalendarAuthType,
+  buildAuthHeaders,
+  formatAuthHeaders,
+  parseAuthHeaders,
+} from "./services/calendar-auth";
+import { DEFAULT_MEETING_NOTE_PATTERN } from "./services/meeting-note-name";
+import {
+  AUTO_CREATE_OPERATOR_LABELS,
+  AUTO_CREATE_RULE_FIELDS,
+  AutoCreateRule,
+  AutoCreateRuleAction,
+  AutoCreateRuleField,
+  AutoCreateRuleOperator,
+  autoCreateOperatorTakesValue,
+  createDefaultAutoCreateCondition,
+  getAutoCreateOperators,
+} from "./services/auto-create-rules";
+import {
+  DEFAULT_FRONTMATTER_MAPPINGS,
+  FRONTMATTER_VALUE_TYPES,
+  FrontmatterMapping,
+  FrontmatterValueType,
+  MAPPED_EVENT_FIELDS,
+  MappedEventField,
+} from "./services/frontmatter-mapping";
+import { SyncPreviewModal } from "./sync-preview-modal";
+import { SyncConflictModal } from "./sync-conflict-modal";
+import { ExternalCalendarService, ExternalCalendarSourceType } from "./external-calendar-service";
+import { CalDavCalendarInfo } from "./services/caldav-client";
+import { FeedCache } from "./services/feed-cache";
+import { resolveTimezoneId } from "./services/windows-zones";
 
 const PRIORITY_KEYS = ["low", "normal", "medium", "high"];
 const STATUS_KEYS = ["open", "complete", "wont-do", "working", "blocked"];
@@ -67,10 +113,24 @@ interface CalendarStyleRule {
 
 interface ExternalCalendarConfig {
   id: string;
+  name?: string;
+  sourceType?: ExternalCalendarSourceType;
   url: string;
   color?: string;
   tag?: string;
   enabled?: boolean;
+  conflictPolicy?: SyncConflictPolicy;
+  autoCreate?: boolean;
+  meetingNoteFolder?: string;
+  meetingNoteTemplate?: string;
+  filenamePattern?: string;
+  remoteFields?: SyncOwnedField[];
+  /** Credentials themselves live in CalendarAuthStore, not in data.json */
+  authType?: CalendarAuthType;
+  /** CalDAV only: push drag/resize of meeting notes back to the event */
+  writeBack?: boolean;
+  /** IANA or Windows zone for feeds without TZIDs; empty keeps local time */
+  assumeTimezone?: string;
 }
 
 const OPERATOR_LABELS: Record<CalendarOperator, string> = {
@@ -93,6 +153,35 @@ const MATCH_OPTIONS: Array<{ value: CalendarStyleMatch; label: string }> = [
 
 const DEFAULT_MATCH: CalendarStyleMatch = "all";
 
+const CONFLICT_POLICY_OPTIONS: Array<{ value: SyncConflictPolicy; label: string }> = [
+  { value: "ask", label: "Ask me" },
+  { value: "remote", label: "Calendar wins" },
+  { value: "local", label: "Note wins" },
+];
+
+const DEFAULT_CONFLICT_POLICY: SyncConflictPolicy = "ask";
+
+const SYNC_OWNED_FIELD_LABELS: Record<SyncOwnedField, string> = {
+  start: "Start",
+  end: "End",
+  title: "Title",
+  filename: "Filename",
+  location: "Location",
+  attendees: "Attendees",
+};
+
+const AUTO_CREATE_ACTION_OPTIONS: Array<{ value: AutoCreateRuleAction; label: string }> = [
+  { value: "include", label: "Create notes for matching events" },
+  { value: "exclude", label: "Skip matching events" },
+];
+
+const DEFAULT_SYNC_JOURNAL_PATH = "Calendar Sync Journal.md";
+
+const parseNonNegativeInt = (value: string, fallback: number): number => {
+  const parsed = parseInt(value, 10);
+  return Number.isNaN(parsed) || parsed < 0 ? fallback : parsed;
+};
+
 const createRuleId = () =>
   `${Date.now()}-${Math.random().toString(16).slice(2, 6)}`;
 
@@ -153,6 +242,8 @@ const normalizeExternalCalendar = (
       typeof calendar?.id === "string"
         ? calendar.id
         : `calendar-${Math.random().toString(36).slice(2, 8)}`,
+    name: typeof calendar?.name === "string" ? calendar.name.trim() : "",
+    sourceType: calendar?.sourceType === "caldav" || calendar?.sourceType === "file" ? calendar.sourceType : "ics",
     url,
     color:
       typeof calendar?.color === "string"
@@ -161,6 +252,66 @@ const normalizeExternalCalendar = (
     tag:
       typeof calendar?.tag === "string" ? calendar.tag.trim() : fallback.tag ?? "",
     enabled: calendar?.enabled !== false,
+    conflictPolicy: CONFLICT_POLICY_OPTIONS.some(
+      (option) => option.value === calendar?.conflictPolicy,
+    )
+      ? calendar.conflictPolicy
+      : DEFAULT_CONFLICT_POLICY,
+    autoCreate: calendar?.autoCreate !== false,
+    meetingNoteFolder:
+      typeof calendar?.meetingNoteFolder === "string" ? calendar.meetingNoteFolder.trim() : "",
+    meetingNoteTemplate:
+      typeof calendar?.meetingNoteTemplate === "string" ? calendar.meetingNoteTemplate.trim() : "",
+    filenamePattern:
+      typeof calendar?.filenamePattern === "string" ? calendar.filenamePattern.trim() : "",
+    remoteFields: Array.isArray(calendar?.remoteFields)
+      ? SYNC_OWNED_FIELDS.filter((field) => calendar.remoteFields.includes(field))
+      : [...DEFAULT_REMOTE_FIELDS],
+    authType: CALENDAR_AUTH_OPTIONS.some((option) => option.value === calendar?.authType)
+      ? calendar.authType
+      : "none",
+    writeBack: calendar?.writeBack === true,
+    assumeTimezone: typeof calendar?.assumeTimezone === "string" ? calendar.assumeTimezone.trim() : "",
+  };
+};
+
+/** Stored settings entries are untrusted JSON; anything that is not an object reads as empty */
+const asRecord = (value: unknown): Record<string, unknown> =>
+  value && typeof value === "object" ? (value as Record<string, unknown>) : {};
+
+const normalizeAutoCreateRule = (stored: unknown): AutoCreateRule => {
+  const rule = asRecord(stored);
+  const conditions = Array.isArray(rule.conditions) ? rule.conditions.map(asRecord) : [];
+  return {
+    id:
+      typeof rule.id === "string"
+        ? rule.id
+        : `rule-${Math.random().toString(36).slice(2, 8)}`,
+    label: typeof rule.label === "string" ? rule.label : "",
+    active: rule.active !== false,
+    action: rule.action === "include" ? "include" : "exclude",
+    match: rule.match === "any" ? "any" : DEFAULT_MATCH,
+    conditions: conditions.length
+      ? conditions.map((condition) => {
+          const field =
+            AUTO_CREATE_RULE_FIELDS.find((entry) => entry.value === condition.field)?.value ?? "title";
+          const operators = getAutoCreateOperators(field);
+          return {
+            field,
+            operator: operators.find((operator) => operator === condition.operator) ?? operators[0],
+            value: condition.value ? String(condition.value) : "",
+          };
+        })
+      : [createDefaultAutoCreateCondition()],
+  };
+};
+
+const normalizeFrontmatterMapping = (stored: unknown): FrontmatterMapping => {
+  const mapping = asRecord(stored);
+  return {
+    field: MAPPED_EVENT_FIELDS.find((entry) => entry.value === mapping.field)?.value ?? "location",
+    key: typeof mapping.key === "string" ? mapping.key.trim() : "",
+    type: FRONTMATTER_VALUE_TYPES.find((entry) => entry.value === mapping.type)?.value ?? "string",
   };
 };
 
@@ -330,13 +481,32 @@ interface CalendarPluginSettings {
   calendarColors: Record<string, string>;
   calendarTags: Record<string, string>;
   hiddenEvents: string[];
+  identityEmails: string[];
+  hideDeclinedEvents: boolean;
   enableLogging: boolean;
   autoCreateMeetingNotes: boolean;
   meetingNoteFolder: string;
   meetingNoteTemplate: string;
+  meetingNoteFilenamePattern: string;
+  /** Note properties sync writes event times to, remembered from the last opened calendar view */
+  meetingNoteStartProperty: string;
+  meetingNoteEndProperty: string;
+  meetingNoteUseEndDuration: boolean;
+  autoCreateRules: AutoCreateRule[];
+  frontmatterMappings: FrontmatterMapping[];
+  peopleFolder: string;
+  createPersonStubs: boolean;
   syncIntervalMinutes: number;
+  syncPaused: boolean;
   syncOnEventDelete: string;
   archiveFolder: string;
+  maxRemovalsPerSync: number;
+  syncJournalPath: string;
+  syncPastDays: number;
+  syncFutureDays: number;
+  createWithinHours: number;
+  orphanPastDays: number;
+  orphanFutureDays: number;
 }
 
 
@@ -358,20 +528,74 @@ settings: CalendarPluginSettings = {
     calendarColors: {},
     calendarTags: {},
     hiddenEvents: [],
+    identityEmails: [],
+    hideDeclinedEvents: true,
     enableLogging: false,
     autoCreateMeetingNotes: false,
     meetingNoteFolder: "",
     meetingNoteTemplate: "",
+    meetingNoteFilenamePattern: DEFAULT_MEETING_NOTE_PATTERN,
+    meetingNoteStartProperty: "scheduled",
+    meetingNoteEndProperty: "timeEstimate",
+    meetingNoteUseEndDuration: true,
+    autoCreateRules: [],
+    frontmatterMappings: DEFAULT_FRONTMATTER_MAPPINGS.map((mapping) => ({ ...mapping })),
+    peopleFolder: "",
+    createPersonStubs: false,
     syncIntervalMinutes: 5,
+    syncPaused: false,
     syncOnEventDelete: "archive",
     archiveFolder: "",
+    maxRemovalsPerSync: 10,
+    syncJournalPath: DEFAULT_SYNC_JOURNAL_PATH,
+    syncPastDays: 7,
+    syncFutureDays: 14,
+    createWithinHours: 0,
+    orphanPastDays: 7,
+    orphanFutureDays: 14,
   };
 
   autoCreateService: AutoCreateService;
+  eventNoteIndex: EventNoteIndex;
+  peopleResolver: PeopleResolver;
+  calendarAuth: CalendarAuthStore;
+  feedCache: FeedCache;
+  externalCalendarService: ExternalCalendarService;
+  syncScheduler: SyncScheduler;
+  /** Conflicts from the most recent sync that are still waiting for a decision. */
+  pendingConflicts: SyncAction[] = [];
 
   async onload() {
     await this.loadSettings();
-    this.autoCreateService = new AutoCreateService(this.app);
+    this.eventNoteIndex = new EventNoteIndex(this.app);
+    this.eventNoteIndex.registerEvents(this);
+    this.peopleResolver = new PeopleResolver(this.app);
+    this.configurePeopleResolver();
+    this.autoCreateService = new AutoCreateService(this.app, this.eventNoteIndex, this.peopleResolver);
+    this.calendarAuth = new CalendarAuthStore(this.app);
+    this.feedCache = new FeedCache(
+      this.app.vault.adapter,
+      `${this.manifest.dir ?? `${this.app.vault.configDir}/plugins/${this.manifest.id}`}/feed-cache`,
+    );
+    this.externalCalendarService = new ExternalCalendarService({
+      getAuthHeaders: (url) => this.getCalendarAuthHeaders(url),
+      getSourceType: (url) => this.getCalendarSourceType(url),
+      getAssumedTimezone: (url) => this.getCalendarAssumedTimezone(url),
+      fileAdapter: this.app.vault.adapter,
+      feedCache: this.feedCache,
+    });
+    // .ics files in the vault show edits without waiting for the next fetch
+    this.registerEvent(
+      this.app.vault.on("modify", (file) => {
+        if (this.isCalendarSourceFile(file.path)) this.reloadExternalEvents();
+      }),
+    );
+    this.syncScheduler = new SyncScheduler({
+      runSync: () => this.runCalendarSync(),
+      getIntervalMinutes: () => this.settings.syncIntervalMinutes,
+      isPaused: () => this.settings.syncPaused,
+      statusBarEl: this.addStatusBarItem(),
+    });
     this.registerBasesView(CalendarViewType, {
       name: "Calendar",
       icon: "lucide-calendar",
@@ -387,12 +611,70 @@ settings: CalendarPluginSettings = {
       callback: () => this.openDefaultBaseInSidebar(),
     });
 
+    this.addCommand({
+      id: "sync-calendars-now",
+      name: "Sync calendars now",
+      callback: async () => {
+        if (!this.settings.autoCreateMeetingNotes) {
+          new Notice("Enable auto-create meeting notes in settings to sync calendars.");
+          return;
+        }
+        const result = await this.syncScheduler.runNow();
+        if (result?.conflicts.length) {
+          this.openConflictModal();
+        } else if (result && result.created + result.updated + result.deleted === 0) {
+          new Notice("Calendar Sync: no changes");
+        }
+      },
+    });
+
+    this.addCommand({
+      id: "resolve-calendar-sync-conflicts",
+      name: "Resolve calendar sync conflicts",
+      checkCallback: (checking) => {
+        if (!this.pendingConflicts.length) return false;
+        if (!checking) this.openConflictModal();
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "preview-calendar-sync",
+      name: "Preview calendar sync",
+      callback: () => this.previewCalendarSync(),
+    });
+
+    this.addCommand({
+      id: "pause-calendar-sync",
+      name: "Pause sync",
+      checkCallback: (checking) => {
+        if (this.settings.syncPaused) return false;
+        if (!checking) void this.setSyncPaused(true);
+        return true;
+      },
+    });
+
+    this.addCommand({
+      id: "resume-calendar-sync",
+      name: "Resume sync",
+      checkCallback: (checking) => {
+        if (!this.settings.syncPaused) return false;
+        if (!checking) void this.setSyncPaused(false);
+        return true;
+      },
+    });
+
     this.addRibbonIcon("calendar", "Open default calendar base", async () => {
       await this.openDefaultBaseInSidebar();
     });
+
+    this.app.workspace.onLayoutReady(() => this.syncScheduler.start());
   }
 
-  onunload() {}
+  onunload() {
+    this.syncScheduler?.stop();
+    this.externalCalendarService?.dispose();
+  }
 
   async loadSettings() {
     const stored = await this.loadData();
@@ -443,21 +725,173 @@ this.settings = {
       calendarColors: stored?.calendarColors ?? {},
       calendarTags: stored?.calendarTags ?? {},
       hiddenEvents: stored?.hiddenEvents ?? [],
+      identityEmails: Array.isArray(stored?.identityEmails) ? stored.identityEmails.map(String) : [],
+      hideDeclinedEvents: stored?.hideDeclinedEvents ?? true,
       enableLogging: stored?.enableLogging ?? false,
       autoCreateMeetingNotes: stored?.autoCreateMeetingNotes ?? false,
       meetingNoteFolder: stored?.meetingNoteFolder ?? "",
       meetingNoteTemplate: stored?.meetingNoteTemplate ?? "",
+      meetingNoteFilenamePattern:
+        stored?.meetingNoteFilenamePattern ?? DEFAULT_MEETING_NOTE_PATTERN,
+      meetingNoteStartProperty: stored?.meetingNoteStartProperty || "scheduled",
+      meetingNoteEndProperty: stored?.meetingNoteEndProperty || "timeEstimate",
+      meetingNoteUseEndDuration: stored?.meetingNoteUseEndDuration ?? true,
+      autoCreateRules: Array.isArray(stored?.autoCreateRules)
+        ? stored.autoCreateRules.map((rule: unknown) => normalizeAutoCreateRule(rule))
+        : [],
+      frontmatterMappings: Array.isArray(stored?.frontmatterMappings)
+        ? stored.frontmatterMappings.map((mapping: unknown) => normalizeFrontmatterMapping(mapping))
+        : DEFAULT_FRONTMATTER_MAPPINGS.map((mapping) => ({ ...mapping })),
+      peopleFolder: stored?.peopleFolder ?? "",
+      createPersonStubs: stored?.createPersonStubs ?? false,
       syncIntervalMinutes: stored?.syncIntervalMinutes ?? 5,
+      syncPaused: stored?.syncPaused ?? false,
       syncOnEventDelete: stored?.syncOnEventDelete ?? "archive",
       archiveFolder: stored?.archiveFolder ?? "",
+      maxRemovalsPerSync: stored?.maxRemovalsPerSync ?? 10,
+      syncJournalPath: stored?.syncJournalPath ?? DEFAULT_SYNC_JOURNAL_PATH,
+      syncPastDays: stored?.syncPastDays ?? 7,
+      syncFutureDays: stored?.syncFutureDays ?? 14,
+      createWithinHours: stored?.createWithinHours ?? 0,
+      orphanPastDays: stored?.orphanPastDays ?? stored?.syncPastDays ?? 7,
+      orphanFutureDays: stored?.orphanFutureDays ?? stored?.syncFutureDays ?? 14,
     };
   }
 
   async saveSettings() {
     await this.saveData(this.settings);
+    this.configurePeopleResolver();
+    this.syncScheduler?.refresh();
     this.refreshCalendarViews();
   }
 
+  private configurePeopleResolver() {
+    this.peopleResolver?.updateConfig({
+      folder: this.settings.peopleFolder ?? "",
+      createStubs: this.settings.createPersonStubs ?? false,
+    });
+  }
+
+  /**
+   * Calendar views report the properties they read event times from, so background sync writes
+   * the same ones even before a view is opened in this session.
+   */
+  async setMeetingNoteProperties(startProperty: string, endProperty: string, useEndDuration: boolean): Promise<void> {
+    const settings = this.settings;
+    if (
+      settings.meetingNoteStartProperty === startProperty &&
+      settings.meetingNoteEndProperty === endProperty &&
+      settings.meetingNoteUseEndDuration === useEndDuration
+    ) {
+      return;
+    }
+    settings.meetingNoteStartProperty = startProperty;
+    settings.meetingNoteEndProperty = endProperty;
+    settings.meetingNoteUseEndDuration = useEndDuration;
+    await this.saveData(settings);
+  }
+
+  async setSyncPaused(paused: boolean): Promise<void> {
+    this.settings.syncPaused = paused;
+    await this.saveSettings();
+    new Notice(paused ? "Calendar sync paused" : "Calendar sync resumed");
+  }
+
+  /**
+   * Runs one meeting-note reconcile pass with the current plugin settings.
+   */
+  async runCalendarSync(): Promise<AutoCreateSyncResult | null> {
+    const args = this.prepareCalendarSync();
+    const result = await this.autoCreateService.checkAndCreateMeetingNotes(...args);
+    if (result && !result.aborted) {
+      this.trackConflicts(result.conflicts);
+    }
+    return result;
+  }
+
+  async previewCalendarSync(): Promise<void> {
+    const plan = await this.autoCreateService.planSync(...this.prepareCalendarSync());
+    if (!plan) {
+      new Notice("Calendar sync is already running. Try again in a moment.");
+      return;
+    }
+    new SyncPreviewModal(this.app, plan, async (approved) => {
+      const result = await this.autoCreateService.applySyncPlan(plan, approved);
+      if (result?.conflicts.length) {
+        this.pendingConflicts = result.conflicts;
+        this.openConflictModal();
+      }
+    }).open();
+  }
+
+  openConflictModal() {
+    if (!this.pendingConflicts.length) {
+      new Notice("No calendar sync conflicts to resolve.");
+      return;
+    }
+    new SyncConflictModal(this.app, this.pendingConflicts, async (resolutions) => {
+      const result = await this.autoCreateService.resolveConflicts(resolutions);
+      if (!result) {
+        new Notice("Calendar sync is running. Try resolving again in a moment.");
+        return;
+      }
+      this.pendingConflicts = [];
+    }).open();
+  }
+
+  /**
+   * Background runs only notify when a note gets a new conflict, so an unresolved one does not nag every interval.
+   */
+  private trackConflicts(conflicts: SyncAction[]) {
+    const known = new Set(this.pendingConflicts.map((action) => action.file?.path));
+    const fresh = conflicts.filter((action) => !known.has(action.file?.path));
+    this.pendingConflicts = conflicts;
+    if (fresh.length) {
+      new Notice(
+        `Calendar Sync: ${conflicts.length} meeting note(s) changed both locally and on the calendar. Run "Resolve calendar sync conflicts" to choose.`,
+      );
+    }
+  }
+
+  private prepareCalendarSync(): Parameters<AutoCreateService["planSync"]> {
+    this.externalCalendarService.setIdentityEmails(this.settings.identityEmails ?? []);
+    this.autoCreateService.updateConfig({
+      autoCreateMeetingNotes: this.settings.autoCreateMeetingNotes,
+      meetingNoteFolder: this.settings.meetingNoteFolder,
+      meetingNoteTemplate: this.settings.meetingNoteTemplate,
+      meetingNoteFilenamePattern: this.settings.meetingNoteFilenamePattern,
+      startProperty: this.settings.meetingNoteStartProperty,
+      endProperty: this.settings.meetingNoteEndProperty,
+      useEndDuration: this.settings.meetingNoteUseEndDuration,
+      syncOnEventDelete: (this.settings.syncOnEventDelete || "nothing") as
+        | "delete"
+        | "archive"
+        | "nothing",
+      archiveFolder: this.settings.archiveFolder || "",
+      maxRemovalsPerSync: this.settings.maxRemovalsPerSync ?? 10,
+      syncJournalPath: this.settings.syncJournalPath ?? "",
+      syncPastDays: this.settings.syncPastDays,
+      syncFutureDays: this.settings.syncFutureDays,
+      createWithinHours: this.settings.createWithinHours,
+      orphanPastDays: this.settings.orphanPastDays,
+      orphanFutureDays: this.settings.orphanFutureDays,
+      autoCreateRules: this.settings.autoCreateRules ?? [],
+      frontmatterMappings: this.settings.frontmatterMappings ?? [],
+    });
+
+    const urls = this.getExternalCalendarUrls();
+    const calendarOptions = Object.fromEntries(
+      urls.map((url) => [url, this.getCalendarSyncOptions(url)]),
+    );
+    return [
+      this.externalCalendarService,
+      urls,
+      this.getExternalCalendarFilter(),
+      calendarOptions,
+      this.getHiddenEvents(),
+    ];
+  }
+
   getCalendarStyleOverride(status?: string, priority?: string) {
     const normalizedStatus = status?.toLowerCase();
     const normalizedPriority = priority?.toLowerCase();
@@ -517,6 +951,42 @@ this.settings = {
     return match?.tag || this.settings.calendarTags?.[url] || "";
   }
 
+  getCalendarSyncOptions(url: string): CalendarSyncOptions {
+    const calendars = this.settings.externalCalendars ?? [];
+    const match = calendars.find((calendar) => calendar.url === url);
+    return {
+      name: match?.name || this.getCalendarTag(url) || "",
+      tag: this.getCalendarTag(url) || null,
+      conflictPolicy: match?.conflictPolicy ?? DEFAULT_CONFLICT_POLICY,
+      autoCreate: match?.autoCreate !== false,
+      folder: match?.meetingNoteFolder || null,
+      template: match?.meetingNoteTemplate || null,
+      filenamePattern: match?.filenamePattern || null,
+      remoteFields: match?.remoteFields ?? DEFAULT_REMOTE_FIELDS,
+    };
+  }
+
+  getCalendarAuthHeaders(url: string): Record<string, string> {
+    const match = (this.settings.externalCalendars ?? []).find((calendar) => calendar.url === url);
+    if (!match || !match.authType || match.authType === "none") return {};
+    return buildAuthHeaders(match.authType, this.calendarAuth.get(match.id));
+  }
+
+  getCalendarSourceType(url: string): ExternalCalendarSourceType {
+    const match = (this.settings.externalCalendars ?? []).find((calendar) => calendar.url === url);
+    return match?.sourceType ?? "ics";
+  }
+
+  isCalendarWriteBackEnabled(url: string): boolean {
+    const match = (this.settings.externalCalendars ?? []).find((calendar) => calendar.url === url);
+    return match?.sourceType === "caldav" && match.writeBack === true;
+  }
+
+  getCalendarAssumedTimezone(url: string): string {
+    const match = (this.settings.externalCalendars ?? []).find((calendar) => calendar.url === url);
+    return match?.assumeTimezone ?? "";
+  }
+
   getHiddenEvents(): string[] {
     return this.settings.hiddenEvents ?? [];
   }
@@ -548,6 +1018,38 @@ this.settings = {
     return this.settings.statusValues ?? [];
   }
 
+  private isCalendarSourceFile(path: string): boolean {
+    return (this.settings.externalCalendars ?? []).some(
+      (calendar) =>
+        calendar.sourceType === "file" &&
+        calendar.enabled !== false &&
+        calendar.url &&
+        normalizePath(calendar.url) === path,
+    );
+  }
+
+  /**
+   * Refetches external events in open views. `clearCache` also drops feeds already fetched,
+   * e.g. when a calendar's credentials change.
+   */
+  /**
+   * Drops a calendar's feed copy on disk with its ETag/Last-Modified, so the next fetch downloads
+   * it in full. Feeds are stored under the URL they were fetched from (webcal:// becomes https://).
+   */
+  async forgetStoredFeed(calendarUrl: string): Promise<void> {
+    const feedUrl = this.externalCalendarService.normalizeUrl(calendarUrl);
+    if (feedUrl) await this.feedCache.remove(feedUrl);
+  }
+
+  reloadExternalEvents(clearCache = false) {
+    if (clearCache) this.externalCalendarService.clearCache();
+    const leaves = this.app.workspace.getLeavesOfType(CalendarViewType);
+    for (const leaf of leaves) {
+      const view = leaf.view as unknown as CalendarView | null;
+      view?.reloadExternalEvents(clearCache);
+    }
+  }
+
   refreshCalendarViews() {
     const leaves = this.app.workspace.getLeavesOfType(CalendarViewType);
     for (const leaf of leaves) {
@@ -556,6 +1058,20 @@ this.settings = {
     }
   }
 
+  async openSyncJournal(): Promise<void> {
+    const path = this.settings.syncJournalPath?.trim();
+    if (!path) {
+      new Notice("Set a sync journal path in settings first.");
+      return;
+    }
+    const normalized = normalizePath(path.endsWith(".md") ? path : `${path}.md`);
+    if (!this.app.vault.getAbstractFileByPath(normalized)) {
+      new Notice("The sync journal is written after the first calendar sync.");
+      return;
+    }
+    await this.app.workspace.openLinkText(normalized, "", true);
+  }
+
   async openDefaultBaseInSidebar(): Promise<void> {
     const path = this.settings.sidebarBasePath?.trim();
     if (!path) {
@@ -710,6 +1226,36 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(containerEl)
+      .setName("My email addresses")
+      .setDesc(
+        "One per line. Used to find your own reply on shared calendars: tentative events get a dashed border, declined events never get a meeting note.",
+      )
+      .addTextArea((text) =>
+        text
+          .setPlaceholder("me@example.com")
+          .setValue((this.plugin.settings.identityEmails ?? []).join("\n"))
+          .onChange(async (value) => {
+            this.plugin.settings.identityEmails = value
+              .split(/[\n,]/)
+              .map((email) => email.trim())
+              .filter(Boolean);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(containerEl)
+      .setName("Hide declined events")
+      .setDesc("Leave events you declined off the calendar.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.hideDeclinedEvents)
+          .onChange(async (value) => {
+            this.plugin.settings.hideDeclinedEvents = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
     const autoSection = containerEl.createEl("div");
     autoSection.createEl("h3", { text: "Auto-create meeting notes" });
     new Setting(autoSection)
@@ -747,6 +1293,84 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(autoSection)
+      .setName("Filename pattern")
+      .setDesc(
+        "Tokens: {{title}}, {{date:YYYY-MM-DD}}, {{time:HHmm}}, {{calendar}}. Use / for subfolders, e.g. {{date:YYYY}}/{{date:MM}}/{{title}}. Synced notes are renamed to match.",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_MEETING_NOTE_PATTERN)
+          .setValue(this.plugin.settings.meetingNoteFilenamePattern || "")
+          .onChange(async (value) => {
+            this.plugin.settings.meetingNoteFilenamePattern = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    autoSection.createEl("h4", { text: "Frontmatter mapping" });
+    autoSection.createEl("p", {
+      text: "Event fields written to note properties on create and kept in sync on every run. Location and attendees only update while a calendar owns them.",
+      cls: "setting-item-description",
+    });
+    const mappingContainer = autoSection.createDiv();
+    this.renderFrontmatterMappings(mappingContainer);
+
+    new Setting(autoSection)
+      .setName("People folder")
+      .setDesc(
+        "Link-typed organizer and attendee mappings point at person notes in this folder, matched by name, aliases or email/emails properties.",
+      )
+      .addText((text) =>
+        text
+          .setPlaceholder("People")
+          .setValue(this.plugin.settings.peopleFolder || "")
+          .onChange(async (value) => {
+            this.plugin.settings.peopleFolder = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(autoSection)
+      .setName("Create person notes for unknown attendees")
+      .setDesc("Adds a stub note with the attendee's name and email to the people folder.")
+      .addToggle((toggle) =>
+        toggle
+          .setValue(this.plugin.settings.createPersonStubs)
+          .onChange(async (value) => {
+            this.plugin.settings.createPersonStubs = value;
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    autoSection.createEl("h4", { text: "Auto-create rules" });
+    autoSection.createEl("p", {
+      text: "Rules are evaluated top to bottom; first match wins. Without a match, events get a note unless an include rule exists.",
+      cls: "setting-item-description",
+    });
+    const autoCreateRuleContainer = autoSection.createDiv();
+    this.renderAutoCreateRules(autoCreateRuleContainer);
+    new Setting(autoSection)
+      .setName("Add auto-create rule")
+      .addButton((btn) =>
+        btn
+          .setIcon("plus")
+          .setButtonText("Add rule")
+          .onClick(async () => {
+            const rules = this.plugin.settings.autoCreateRules;
+            rules.push({
+              id: createRuleId(),
+              label: `Rule ${rules.length + 1}`,
+              active: true,
+              action: "exclude",
+              match: DEFAULT_MATCH,
+              conditions: [createDefaultAutoCreateCondition()],
+            });
+            await this.plugin.saveSettings();
+            this.renderAutoCreateRules(autoCreateRuleContainer);
+          }),
+      );
+
     new Setting(autoSection)
       .setName("Sync interval (minutes)")
       .setDesc("How often to check for calendar changes.")
@@ -761,6 +1385,71 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(autoSection)
+      .setName("Create window: days back")
+      .setDesc("Create notes for events up to this many days in the past. Existing notes are updated for events in either the create or the removal window.")
+      .addText((text) =>
+        text
+          .setPlaceholder("7")
+          .setValue(String(this.plugin.settings.syncPastDays))
+          .onChange(async (value) => {
+            this.plugin.settings.syncPastDays = parseNonNegativeInt(value, 7);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(autoSection)
+      .setName("Create window: days ahead")
+      .setDesc("Create notes for events up to this many days ahead.")
+      .addText((text) =>
+        text
+          .setPlaceholder("14")
+          .setValue(String(this.plugin.settings.syncFutureDays))
+          .onChange(async (value) => {
+            this.plugin.settings.syncFutureDays = parseNonNegativeInt(value, 14);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(autoSection)
+      .setName("Only create notes within (hours)")
+      .setDesc("Only create notes for events starting in the next N hours, e.g. 24 for next-day prep. 0 uses the full create window.")
+      .addText((text) =>
+        text
+          .setPlaceholder("0")
+          .setValue(String(this.plugin.settings.createWithinHours))
+          .onChange(async (value) => {
+            this.plugin.settings.createWithinHours = parseNonNegativeInt(value, 0);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(autoSection)
+      .setName("Removal window: days back")
+      .setDesc("Notes for events removed from the calendar are only deleted/archived within this window.")
+      .addText((text) =>
+        text
+          .setPlaceholder("7")
+          .setValue(String(this.plugin.settings.orphanPastDays))
+          .onChange(async (value) => {
+            this.plugin.settings.orphanPastDays = parseNonNegativeInt(value, 7);
+            await this.plugin.saveSettings();
+          }),
+      );
+
+    new Setting(autoSection)
+      .setName("Removal window: days ahead")
+      .setDesc("Upper bound of the removal window.")
+      .addText((text) =>
+        text
+          .setPlaceholder("14")
+          .setValue(String(this.plugin.settings.orphanFutureDays))
+          .onChange(async (value) => {
+            this.plugin.settings.orphanFutureDays = parseNonNegativeInt(value, 14);
+            await this.plugin.saveSettings();
+          }),
+      );
+
     new Setting(autoSection)
       .setName("When calendar event is deleted")
       .setDesc("What to do with the meeting note when the event is removed.")
@@ -789,6 +1478,37 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
           }),
       );
 
+    new Setting(autoSection)
+      .setName("Sync journal note")
+      .setDesc("Every sync run is appended to this note. Leave empty to disable the journal.")
+      .addText((text) =>
+        text
+          .setPlaceholder(DEFAULT_SYNC_JOURNAL_PATH)
+          .setValue(this.plugin.settings.syncJournalPath || "")
+          .onChange(async (value) => {
+            this.plugin.settings.syncJournalPath = value.trim();
+            await this.plugin.saveSettings();
+          }),
+      )
+      .addButton((btn) =>
+        btn.setButtonText("Open").onClick(async () => {
+          await this.plugin.openSyncJournal();
+        }),
+      );
+
+    new Setting(autoSection)
+      .setName("Removal safety limit")
+      .setDesc("Abort a sync that would delete or archive more than this many notes. 0 disables the limit.")
+      .addText((text) =>
+        text
+          .setPlaceholder("10")
+          .setValue(String(this.plugin.settings.maxRemovalsPerSync ?? 10))
+          .onChange(async (value) => {
+            this.plugin.settings.maxRemovalsPerSync = parseNonNegativeInt(value, 10);
+            await this.plugin.saveSettings();
+          }),
+      );
+
 
     containerEl.createEl("h3", { text: "Sidebar default base" });
     new Setting(containerEl)
@@ -842,7 +1562,7 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
       header.style.gap = "8px";
 
       const title = header.createEl("strong", {
-        text: calendar.url ? `Calendar ${index + 1}` : "New calendar",
+        text: calendar.name || (calendar.url ? `Calendar ${index + 1}` : "New calendar"),
       });
       title.style.flex = "1";
 
@@ -876,6 +1596,8 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
       deleteBtn.className = "mod-warning";
       deleteBtn.addEventListener("click", async () => {
         calendars.splice(index, 1);
+        this.plugin.calendarAuth.remove(calendar.id);
+        void this.plugin.forgetStoredFeed(calendar.url);
         await refresh();
       });
 
@@ -892,11 +1614,53 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
         );
 
       new Setting(card)
-        .setName("iCal URL")
-        .setDesc("Paste the full .ics URL for this calendar.")
+        .setName("Name")
+        .setDesc("Shown in settings and used for the {{calendar}} filename token.")
         .addText((text) =>
           text
-            .setPlaceholder("https://example.com/calendar.ics")
+            .setPlaceholder(`Calendar ${index + 1}`)
+            .setValue(calendar.name || "")
+            .onChange(async (value) => {
+              calendar.name = value.trim();
+              await this.plugin.saveSettings();
+            }),
+        );
+
+      new Setting(card)
+        .setName("Source type")
+        .setDesc("CalDAV only downloads events in the visible range and skips unchanged calendars.")
+        .addDropdown((dropdown) =>
+          dropdown
+            .addOption("ics", "iCal URL")
+            .addOption("caldav", "CalDAV")
+            .addOption("file", "Vault file")
+            .setValue(calendar.sourceType ?? "ics")
+            .onChange(async (value) => {
+              calendar.sourceType = value as ExternalCalendarSourceType;
+              await refresh();
+            }),
+        );
+
+      const isCalDav = calendar.sourceType === "caldav";
+      const isFile = calendar.sourceType === "file";
+      new Setting(card)
+        .setName(isCalDav ? "CalDAV URL" : isFile ? "File path" : "iCal URL")
+        .setDesc(
+          isCalDav
+            ? "Calendar collection URL. Enter the server or principal URL instead and use Find calendars to pick one."
+            : isFile
+              ? "Vault path of an .ics file. Events update whenever the file changes."
+              : "Paste the full .ics URL for this calendar.",
+        )
+        .addText((text) =>
+          text
+            .setPlaceholder(
+              isCalDav
+                ? "https://cloud.example.com/remote.php/dav"
+                : isFile
+                  ? "Calendars/conference.ics"
+                  : "https://example.com/calendar.ics",
+            )
             .setValue(calendar.url || "")
             .onChange(async (value) => {
               calendar.url = value.trim();
@@ -904,6 +1668,68 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
             }),
         );
 
+      if (!isFile) {
+        this.renderCalendarAuth(card, calendar, refresh);
+      }
+
+      if (isCalDav) {
+        new Setting(card)
+          .setName("Find calendars")
+          .setDesc("Lists the calendars at this URL. Set up authentication first.")
+          .addButton((btn) =>
+            btn.setButtonText("Find calendars").onClick(async () => {
+              btn.setDisabled(true);
+              try {
+                const found = await this.plugin.externalCalendarService.discoverCalDavCalendars(
+                  calendar.url,
+                );
+                this.renderDiscoveredCalendars(discovered, calendar, found, refresh);
+              } catch (error) {
+                new Notice(
+                  `CalDAV discovery failed: ${error instanceof Error ? error.message : String(error)}`,
+                );
+              } finally {
+                btn.setDisabled(false);
+              }
+            }),
+          );
+        const discovered = card.createDiv();
+
+        new Setting(card)
+          .setName("Write changes back")
+          .setDesc(
+            "Dragging or resizing a meeting note also moves the event on the server. Recurring series are only changed locally.",
+          )
+          .addToggle((toggle) =>
+            toggle.setValue(calendar.writeBack === true).onChange(async (value) => {
+              calendar.writeBack = value;
+              await this.plugin.saveSettings();
+            }),
+          );
+      }
+
+      const describeTimezone = (value: string) => {
+        if (!value) return "Used for event times without a timezone. Empty means local time.";
+        const resolved = resolveTimezoneId(value);
+        if (!resolved) return `Unknown timezone "${value}". Use an IANA name such as Europe/Berlin.`;
+        return resolved === value ? `Event times without a timezone are read as ${value}.` : `Read as ${resolved}.`;
+      };
+      const timezoneSetting = new Setting(card)
+        .setName("Assume timezone")
+        .setDesc(describeTimezone(calendar.assumeTimezone ?? ""))
+        .addText((text) => {
+          text
+            .setPlaceholder("Local time")
+            .setValue(calendar.assumeTimezone || "")
+            .onChange(async (value) => {
+              calendar.assumeTimezone = value.trim();
+              timezoneSetting.setDesc(describeTimezone(calendar.assumeTimezone));
+              await this.plugin.saveSettings();
+            });
+          // Refetching on every keystroke would parse the feed for each partial zone name
+          text.inputEl.addEventListener("blur", () => this.plugin.reloadExternalEvents());
+        });
+
       new Setting(card)
         .setName("Color")
         .setDesc("Calendar color for external events.")
@@ -928,6 +1754,471 @@ class CalendarPluginSettingsTab extends PluginSettingTab {
               await refresh();
             }),
         );
+
+      new Setting(card)
+        .setName("Create meeting notes")
+        .setDesc("Turn off to never auto-create notes for this calendar. Existing notes keep syncing.")
+        .addToggle((toggle) =>
+          toggle
+            .setValue(calendar.autoCreate !== false)
+            .onChange(async (value) => {
+              calendar.autoCreate = value;
+              await refresh();
+            }),
+        );
+
+      new Setting(card)
+        .setName("Meeting note folder")
+        .setDesc("Overrides the global meeting note folder for this calendar.")
+        .addText((text) =>
+          text
+            .setPlaceholder(this.plugin.settings.meetingNoteFolder || "Vault root")
+            .setValue(calendar.meetingNoteFolder || "")
+            .onChange(async (value) => {
+              calendar.meetingNoteFolder = value.trim();
+              await this.plugin.saveSettings();
+            }),
+        );
+
+      new Setting(card)
+        .setName("Meeting note template")
+        .setDesc("Overrides the global meeting note template for this calendar.")
+        .addText((text) =>
+          text
+            .setPlaceholder(this.plugin.settings.meetingNoteTemplate || "Templates/Meeting.md")
+            .setValue(calendar.meetingNoteTemplate || "")
+            .onChange(async (value) => {
+              calendar.meetingNoteTemplate = value.trim();
+              await this.plugin.saveSettings();
+            }),
+        );
+
+      new Setting(card)
+        .setName("Filename pattern")
+        .setDesc("Overrides the global filename pattern for this calendar.")
+        .addText((text) =>
+          text
+            .setPlaceholder(this.plugin.settings.meetingNoteFilenamePattern || DEFAULT_MEETING_NOTE_PATTERN)
+            .setValue(calendar.filenamePattern || "")
+            .onChange(async (value) => {
+              calendar.filenamePattern = value.trim();
+              await this.plugin.saveSettings();
+            }),
+        );
+
+      const remoteFieldsSetting = new Setting(card)
+        .setName("Fields updated from calendar")
+        .setDesc("Ticked fields follow the calendar on every sync. Unticked fields keep your edits once the note exists.");
+      {
+        const selected = new Set(calendar.remoteFields ?? DEFAULT_REMOTE_FIELDS);
+        const controls = remoteFieldsSetting.controlEl.createDiv();
+        controls.style.display = "flex";
+        controls.style.flexWrap = "wrap";
+        controls.style.gap = "8px";
+        controls.style.alignItems = "center";
+
+        SYNC_OWNED_FIELDS.forEach((field) => {
+          const label = controls.createEl("label");
+          label.style.display = "flex";
+          label.style.alignItems = "center";
+          label.style.gap = "4px";
+          const checkbox = label.createEl("input", { type: "checkbox" });
+          checkbox.checked = selected.has(field);
+          checkbox.addEventListener("change", async () => {
+            if (checkbox.checked) {
+              selected.add(field);
+            } else {
+              selected.delete(field);
+            }
+            calendar.remoteFields = SYNC_OWNED_FIELDS.filter((entry) => selected.has(entry));
+            await this.plugin.saveSettings();
+          });
+          label.createEl("span", { text: SYNC_OWNED_FIELD_LABELS[field] });
+        });
+      }
+
+      new Setting(card)
+        .setName("When both sides changed")
+        .setDesc(
+          "A meeting note moved or renamed in the vault that was also changed on this calendar since the last sync.",
+        )
+        .addDropdown((dropdown) => {
+          CONFLICT_POLICY_OPTIONS.forEach((option) =>
+            dropdown.addOption(option.value, option.label),
+          );
+          dropdown
+            .setValue(calendar.conflictPolicy ?? DEFAULT_CONFLICT_POLICY)
+            .onChange(async (value) => {
+              calendar.conflictPolicy = value as SyncConflictPolicy;
+              await refresh();
+            });
+        });
+    });
+  }
+
+  renderDiscoveredCalendars(
+    container: HTMLElement,
+    calendar: ExternalCalendarConfig,
+    found: CalDavCalendarInfo[],
+    refresh: () => Promise<void>,
+  ) {
+    container.empty();
+    if (!found.length) {
+      container.createEl("p", {
+        text: "No event calendars found at this URL.",
+        cls: "setting-item-description",
+      });
+      return;
+    }
+    for (const info of found) {
+      new Setting(container)
+        .setName(info.displayName || info.url)
+        .setDesc(info.url)
+        .addButton((btn) =>
+          btn
+            .setButtonText(info.url === calendar.url ? "In use" : "Use")
+            .setDisabled(info.url === calendar.url)
+            .onClick(async () => {
+              calendar.url = info.url;
+              if (!calendar.name) calendar.name = info.displayName;
+              if (info.color) calendar.color = info.color;
+              await refresh();
+            }),
+        );
+    }
+  }
+
+  renderCalendarAuth(
+    card: HTMLElement,
+    calendar: ExternalCalendarConfig,
+    refresh: () => Promise<void>,
+  ) {
+    const store = this.plugin.calendarAuth;
+    const auth = store.get(calendar.id);
+    let authChanged = false;
+    const saveAuth = () => {
+      store.set(calendar.id, auth);
+      authChanged = true;
+      void this.plugin.forgetStoredFeed(calendar.url);
+    };
+    // Cached responses were fetched with the old credentials; refetch once editing is done
+    const reloadIfChanged = () => {
+      if (!authChanged) return;
+      authChanged = false;
+      this.plugin.reloadExternalEvents(true);
+    };
+
+    new Setting(card)
+      .setName("Authentication")
+      .setDesc("Credentials are kept on this device only and are not written to the plugin's settings file.")
+      .addDropdown((dropdown) => {
+        CALENDAR_AUTH_OPTIONS.forEach((option) => dropdown.addOption(option.value, option.label));
+        dropdown.setValue(calendar.authType ?? "none").onChange(async (value) => {
+          calendar.authType = value as CalendarAuthType;
+          await this.plugin.forgetStoredFeed(calendar.url);
+          await refresh();
+          this.plugin.reloadExternalEvents(true);
+        });
+      });
+
+    if (calendar.authType === "basic") {
+      new Setting(card).setName("Username").addText((text) => {
+        text.setValue(auth.username).onChange((value) => {
+          auth.username = value.trim();
+          saveAuth();
+        });
+        text.inputEl.addEventListener("blur", reloadIfChanged);
+      });
+      new Setting(card).setName("Password").addText((text) => {
+        text.inputEl.type = "password";
+        text.setValue(auth.password).onChange((value) => {
+          auth.password = value;
+          saveAuth();
+        });
+        text.inputEl.addEventListener("blur", reloadIfChanged);
+      });
+    } else if (calendar.authType === "headers") {
+      new Setting(card)
+        .setName("Headers")
+        .setDesc("One `Name: value` per line, e.g. Authorization: Bearer <token>.")
+        .addTextArea((text) => {
+          text
+            .setPlaceholder("Authorization: Bearer …")
+            .setValue(formatAuthHeaders(auth.headers))
+            .onChange((value) => {
+              auth.headers = parseAuthHeaders(value);
+              saveAuth();
+            });
+          text.inputEl.addEventListener("blur", reloadIfChanged);
+        });
+    }
+  }
+
+  renderFrontmatterMappings(container: HTMLElement) {
+    container.empty();
+    if (!this.plugin.settings.frontmatterMappings) {
+      this.plugin.settings.frontmatterMappings = [];
+    }
+    const mappings = this.plugin.settings.frontmatterMappings;
+    const refresh = async () => {
+      await this.plugin.saveSettings();
+      this.renderFrontmatterMappings(container);
+    };
+
+    const list = container.createDiv();
+    list.style.display = "flex";
+    list.style.flexDirection = "column";
+    list.style.gap = "8px";
+    list.style.marginBottom = "12px";
+
+    mappings.forEach((mapping, index) => {
+      const row = list.createDiv();
+      row.style.display = "grid";
+      row.style.gridTemplateColumns = "1fr 1fr 1fr auto";
+      row.style.gap = "6px";
+
+      const fieldSelect = row.createEl("select");
+      MAPPED_EVENT_FIELDS.forEach((field) => {
+        const opt = fieldSelect.createEl("option", {
+          value: field.value,
+          text: field.label,
+        });
+        if (mapping.field === field.value) opt.setAttr("selected", "");
+      });
+      fieldSelect.addEventListener("change", async () => {
+        mapping.field = fieldSelect.value as MappedEventField;
+        await refresh();
+      });
+
+      const keyInput = row.createEl("input");
+      keyInput.type = "text";
+      keyInput.value = mapping.key;
+      keyInput.placeholder = "property name";
+      keyInput.addEventListener("change", async () => {
+        mapping.key = keyInput.value.trim();
+        await refresh();
+      });
+
+      const typeSelect = row.createEl("select");
+      FRONTMATTER_VALUE_TYPES.forEach((type) => {
+        const opt = typeSelect.createEl("option", {
+          value: type.value,
+          text: type.label,
+        });
+        if (mapping.type === type.value) opt.setAttr("selected", "");
+      });
+      typeSelect.addEventListener("change", async () => {
+        mapping.type = typeSelect.value as FrontmatterValueType;
+        await refresh();
+      });
+
+      const removeBtn = row.createEl("button", { text: "×" });
+      removeBtn.className = "mod-ghost";
+      removeBtn.addEventListener("click", async () => {
+        mappings.splice(index, 1);
+        await refresh();
+      });
+    });
+
+    const addBtn = list.createEl("button", { text: "+ Mapping" });
+    addBtn.className = "mod-cta";
+    addBtn.style.alignSelf = "flex-start";
+    addBtn.addEventListener("click", async () => {
+      mappings.push({ field: "organizer", key: "organizer", type: "string" });
+      await refresh();
+    });
+  }
+
+  renderAutoCreateRules(container: HTMLElement) {
+    container.empty();
+    if (!this.plugin.settings.autoCreateRules) {
+      this.plugin.settings.autoCreateRules = [];
+    }
+    const rules = this.plugin.settings.autoCreateRules;
+    const refresh = async () => {
+      await this.plugin.saveSettings();
+      this.renderAutoCreateRules(container);
+    };
+
+    rules.forEach((rule, index) => {
+      if (!rule.conditions || !rule.conditions.length) {
+        rule.conditions = [createDefaultAutoCreateCondition()];
+      }
+
+      const card = container.createDiv({ cls: "calendar-auto-create-rule-card" });
+      card.style.border = "1px solid var(--background-modifier-border)";
+      card.style.borderRadius = "6px";
+      card.style.padding = "12px";
+      card.style.marginBottom = "12px";
+      card.style.display = "flex";
+      card.style.flexDirection = "column";
+      card.style.gap = "10px";
+
+      const header = card.createDiv();
+      header.style.display = "flex";
+      header.style.alignItems = "center";
+      header.style.gap = "12px";
+
+      const activeWrap = header.createEl("label");
+      activeWrap.style.display = "flex";
+      activeWrap.style.alignItems = "center";
+      activeWrap.style.gap = "6px";
+      const activeToggle = activeWrap.createEl("input", { type: "checkbox" });
+      activeToggle.checked = rule.active !== false;
+      activeToggle.addEventListener("change", async () => {
+        rule.active = activeToggle.checked;
+        await refresh();
+      });
+      activeWrap.createEl("span", { text: "Active" });
+
+      const labelInput = header.createEl("input", {
+        type: "text",
+        value: rule.label || `Rule ${index + 1}`,
+        placeholder: "Rule label",
+        cls: "calendar-rule-label-input",
+      }) as HTMLInputElement;
+      labelInput.style.flex = "1";
+      labelInput.addEventListener("change", async () => {
+        rule.label = labelInput.value.trim();
+        await refresh();
+      });
+
+      const controlGroup = header.createDiv();
+      controlGroup.style.display = "flex";
+      controlGroup.style.gap = "4px";
+
+      const move = (from: number, to: number) => {
+        [rules[from], rules[to]] = [rules[to], rules[from]];
+      };
+
+      const up = controlGroup.createEl("button", { text: "↑" });
+      up.className = "mod-cta";
+      up.disabled = index === 0;
+      up.addEventListener("click", async () => {
+        if (index === 0) return;
+        move(index, index - 1);
+        await refresh();
+      });
+
+      const down = controlGroup.createEl("button", { text: "↓" });
+      down.className = "mod-cta";
+      down.disabled = index === rules.length - 1;
+      down.addEventListener("click", async () => {
+        if (index >= rules.length - 1) return;
+        move(index, index + 1);
+        await refresh();
+      });
+
+      const deleteBtn = controlGroup.createEl("button", { text: "Delete" });
+      deleteBtn.className = "mod-warning";
+      deleteBtn.addEventListener("click", async () => {
+        rules.splice(index, 1);
+        await refresh();
+      });
+
+      new Setting(card)
+        .setName("Action")
+        .addDropdown((dropdown) => {
+          AUTO_CREATE_ACTION_OPTIONS.forEach((option) => {
+            dropdown.addOption(option.value, option.label);
+          });
+          dropdown.setValue(rule.action);
+          dropdown.onChange(async (value) => {
+            rule.action = value as AutoCreateRuleAction;
+            await refresh();
+          });
+        });
+
+      new Setting(card)
+        .setName("Match logic")
+        .setDesc("Determine whether all or any conditions must match")
+        .addDropdown((dropdown) => {
+          MATCH_OPTIONS.forEach((option) => {
+            dropdown.addOption(option.value, option.label);
+          });
+          dropdown.setValue(rule.match || DEFAULT_MATCH);
+          dropdown.onChange(async (value) => {
+            rule.match = value as CalendarStyleMatch;
+            await refresh();
+          });
+        });
+
+      const conditionsContainer = card.createDiv();
+      conditionsContainer.style.display = "flex";
+      conditionsContainer.style.flexDirection = "column";
+      conditionsContainer.style.gap = "8px";
+
+      rule.conditions.forEach((condition, condIndex) => {
+        const row = conditionsContainer.createDiv();
+        row.style.display = "grid";
+        row.style.gridTemplateColumns = "1fr 1fr 1fr auto";
+        row.style.gap = "6px";
+
+        const fieldSelect = row.createEl("select");
+        AUTO_CREATE_RULE_FIELDS.forEach((field) => {
+          const opt = fieldSelect.createEl("option", {
+            value: field.value,
+            text: field.label,
+          });
+          if (condition.field === field.value) opt.setAttr("selected", "");
+        });
+        fieldSelect.addEventListener("change", async () => {
+          condition.field = fieldSelect.value as AutoCreateRuleField;
+          condition.operator = getAutoCreateOperators(condition.field)[0];
+          condition.value = "";
+          await refresh();
+        });
+
+        const operatorSelect = row.createEl("select");
+        getAutoCreateOperators(condition.field).forEach((op) => {
+          const opt = operatorSelect.createEl("option", {
+            value: op,
+            text: AUTO_CREATE_OPERATOR_LABELS[op],
+          });
+          if (condition.operator === op) opt.setAttr("selected", "");
+        });
+        operatorSelect.addEventListener("change", async () => {
+          condition.operator = operatorSelect.value as AutoCreateRuleOperator;
+          await refresh();
+        });
+
+        const valueInput = row.createEl("input");
+        valueInput.type = "text";
+        valueInput.value = condition.value;
+        valueInput.placeholder = ["attendees", "duration"].includes(condition.field)
+          ? "2"
+          : condition.operator.endsWith("matches")
+            ? "^Focus time$"
+            : "standup";
+        valueInput.disabled = !autoCreateOperatorTakesValue(condition.operator);
+        valueInput.addEventListener("change", async () => {
+          condition.value = valueInput.value.trim();
+          await refresh();
+        });
+
+        const removeBtn = row.createEl("button", { text: "×" });
+        removeBtn.className = "mod-ghost";
+        removeBtn.addEventListener("click", async () => {
+          if (rule.conditions.length <= 1) {
+            rule.conditions = [createDefaultAutoCreateCondition()];
+          } else {
+            rule.conditions.splice(condIndex, 1);
+          }
+          await refresh();
+        });
+      });
+
+      const addRow = conditionsContainer.createDiv();
+      addRow.style.display = "flex";
+      addRow.style.alignItems = "center";
+      addRow.style.gap = "6px";
+
+      const addBtn = addRow.createEl("button", { text: "+ Condition" });
+      addBtn.className = "mod-cta";
+      addBtn.addEventListener("click", async () => {
+        rule.conditions.push(createDefaultAutoCreateCondition());
+        await refresh();
+      });
     });
   }
 
@@ -1,4 +1,8 @@
-import { AutoCreateService } from "./services/auto-create-service";
+import { AutoCreateService, CalendarSyncOptions } from "./services/auto-create-service";
+import { ExternalCalendarSourceType } from "./external-calendar-service";
+import { EventNoteIndex } from "./services/event-note-index";
+import { PeopleResolver } from "./services/people-resolver";
+import { FeedCache } from "./services/feed-cache";
 
 export interface CalendarPluginBridge {
   getCalendarStyleOverride(status?: string, priority?: string): { color?: string; textStyle?: string } | null;
@@ -7,6 +11,12 @@ export interface CalendarPluginBridge {
   getExternalCalendarFilter(): string;
   getCalendarColor(url: string): string;
   getCalendarTag(url: string): string;
+  getCalendarSyncOptions(url: string): CalendarSyncOptions;
+  getCalendarAuthHeaders(url: string): Record<string, string>;
+  getCalendarSourceType(url: string): ExternalCalendarSourceType;
+  isCalendarWriteBackEnabled(url: string): boolean;
+  getCalendarAssumedTimezone(url: string): string;
+  setMeetingNoteProperties(startProperty: string, endProperty: string, useEndDuration: boolean): Promise<void>;
   getHiddenEvents(): string[];
   addHiddenEvent(eventId: string): Promise<void>;
   removeHiddenEvent(eventId: string): Promise<void>;
@@ -14,4 +24,7 @@ export interface CalendarPluginBridge {
   getStatusValues(): string[];
   settings: any;
   autoCreateService: AutoCreateService;
+  eventNoteIndex: EventNoteIndex;
+  peopleResolver: PeopleResolver;
+  feedCache: FeedCache;
 }
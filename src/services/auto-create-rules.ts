@@ -0,0 +1,192 @@
+import { ExternalCalendarEvent } from "../external-calendar-service";
+
+export type AutoCreateRuleAction = "include" | "exclude";
+export type AutoCreateRuleMatch = "all" | "any";
+export type AutoCreateRuleField =
+    | "title"
+    | "location"
+    | "organizer"
+    | "attendees"
+    | "attendeeEmails"
+    | "duration"
+    | "allDay"
+    | "recurring"
+    | "busy";
+export type AutoCreateRuleOperator =
+    | "contains"
+    | "!contains"
+    | "matches"
+    | "!matches"
+    | "exists"
+    | "!exists"
+    | "gte"
+    | "lte"
+    | "eq"
+    | "yes"
+    | "no";
+
+export interface AutoCreateRuleCondition {
+    field: AutoCreateRuleField;
+    operator: AutoCreateRuleOperator;
+    value: string;
+}
+
+export interface AutoCreateRule {
+    id: string;
+    label: string;
+    active?: boolean;
+    action: AutoCreateRuleAction;
+    match?: AutoCreateRuleMatch;
+    conditions: AutoCreateRuleCondition[];
+}
+
+type FieldKind = "text" | "number" | "flag";
+
+export const AUTO_CREATE_RULE_FIELDS: Array<{ value: AutoCreateRuleField; label: string; kind: FieldKind }> = [
+    { value: "title", label: "Title", kind: "text" },
+    { value: "location", label: "Location", kind: "text" },
+    { value: "organizer", label: "Organizer", kind: "text" },
+    { value: "attendees", label: "Attendee count", kind: "number" },
+    { value: "attendeeEmails", label: "Attendee emails", kind: "text" },
+    { value: "duration", label: "Duration (minutes)", kind: "number" },
+    { value: "allDay", label: "All-day", kind: "flag" },
+    { value: "recurring", label: "Recurring", kind: "flag" },
+    { value: "busy", label: "Shows as busy", kind: "flag" },
+];
+
+const OPERATORS_BY_KIND: Record<FieldKind, AutoCreateRuleOperator[]> = {
+    text: ["contains", "!contains", "matches", "!matches", "exists", "!exists"],
+    number: ["gte", "lte", "eq"],
+    flag: ["yes", "no"],
+};
+
+export const AUTO_CREATE_OPERATOR_LABELS: Record<AutoCreateRuleOperator, string> = {
+    contains: "contains",
+    "!contains": "does not contain",
+    matches: "matches regex",
+    "!matches": "does not match regex",
+    exists: "is set",
+    "!exists": "is empty",
+    gte: "at least",
+    lte: "at most",
+    eq: "exactly",
+    yes: "yes",
+    no: "no",
+};
+
+const fieldKind = (field: AutoCreateRuleField): FieldKind =>
+    AUTO_CREATE_RULE_FIELDS.find((entry) => entry.value === field)?.kind ?? "text";
+
+export const getAutoCreateOperators = (field: AutoCreateRuleField): AutoCreateRuleOperator[] =>
+    OPERATORS_BY_KIND[fieldKind(field)];
+
+export const autoCreateOperatorTakesValue = (operator: AutoCreateRuleOperator): boolean =>
+    !["exists", "!exists", "yes", "no"].includes(operator);
+
+export const createDefaultAutoCreateCondition = (): AutoCreateRuleCondition => ({
+    field: "title",
+    operator: "contains",
+    value: "",
+});
+
+/**
+ * Decides whether an event gets a meeting note. Active rules are checked top to bottom and the
+ * first matching rule wins. When no rule matches, the event is created unless an include rule
+ * exists, so "include: attendees at least 2" alone means "only events with 2+ attendees".
+ */
+export function shouldAutoCreate(rules: AutoCreateRule[] | undefined, event: ExternalCalendarEvent): boolean {
+    // A rule counts once a condition is filled in; "Add rule" starts with a blank one
+    const active = (rules ?? [])
+        .filter((rule) => rule.active !== false)
+        .map((rule) => ({ ...rule, conditions: (rule.conditions ?? []).filter(conditionHasMeaning) }))
+        .filter((rule) => rule.conditions.length);
+    for (const rule of active) {
+        const results = rule.conditions.map((condition) => evaluateCondition(condition, event));
+        const matches = rule.match === "any" ? results.some(Boolean) : results.every(Boolean);
+        if (matches) {
+            return rule.action !== "exclude";
+        }
+    }
+    return !active.some((rule) => rule.action === "include");
+}
+
+/** Blank text and number values would match every event ("" is in every title) */
+const conditionHasMeaning = (condition: AutoCreateRuleCondition): boolean =>
+    !autoCreateOperatorTakesValue(condition.operator) || Boolean(condition.value?.trim());
+
+function evaluateCondition(condition: AutoCreateRuleCondition, event: ExternalCalendarEvent): boolean {
+    switch (fieldKind(condition.field)) {
+        case "number":
+            return compareNumber(numberValue(condition.field, event), condition);
+        case "flag": {
+            const flag = flagValue(condition.field, event);
+            return condition.operator === "no" ? !flag : flag;
+        }
+        default:
+            return compareText(textValue(condition.field, event), condition);
+    }
+}
+
+function textValue(field: AutoCreateRuleField, event: ExternalCalendarEvent): string {
+    if (field === "location") return event.location ?? "";
+    if (field === "organizer") return [event.organizer, event.organizerEmail].filter(Boolean).join(" ");
+    if (field === "attendeeEmails") return (event.attendeeDetails ?? []).map((attendee) => attendee.email).join(" ");
+    return event.title ?? "";
+}
+
+function flagValue(field: AutoCreateRuleField, event: ExternalCalendarEvent): boolean {
+    if (field === "allDay") return event.isAllDay;
+    // Events marked free (TRANSP:TRANSPARENT) do not block time
+    if (field === "busy") return event.transparency !== "transparent";
+    return Boolean(event.isRecurring);
+}
+
+function numberValue(field: AutoCreateRuleField, event: ExternalCalendarEvent): number {
+    if (field === "attendees") return event.attendees?.length ?? 0;
+    return Math.round((event.endDate.getTime() - event.startDate.getTime()) / 60000);
+}
+
+function compareText(value: string, condition: AutoCreateRuleCondition): boolean {
+    const normalizedValue = value.toLowerCase();
+    const target = (condition.value || "").toLowerCase();
+    switch (condition.operator) {
+        case "contains":
+            return normalizedValue.includes(target);
+        case "!contains":
+            return !normalizedValue.includes(target);
+        case "matches":
+            return testRegex(value, condition.value);
+        case "!matches":
+            return !testRegex(value, condition.value);
+        case "exists":
+            return normalizedValue.trim().length > 0;
+        case "!exists":
+            return normalizedValue.trim().length === 0;
+        default:
+            return false;
+    }
+}
+
+function compareNumber(value: number, condition: AutoCreateRuleCondition): boolean {
+    const target = Number(condition.value);
+    if (!Number.isFinite(target)) return false;
+    switch (condition.operator) {
+        case "gte":
+            return value >= target;
+        case "lte":
+            return value <= target;
+        case "eq":
+            return value === target;
+        default:
+            return false;
+    }
+}
+
+function testRegex(value: string, pattern: string): boolean {
+    try {
+        return new RegExp(pattern, "i").test(value);
+    } catch {
+        // An invalid pattern never matches rather than breaking the sync
+        return false;
+    }
+}
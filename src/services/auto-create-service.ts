@@ -1,13 +1,23 @@
 import { App, TFile, normalizePath, Notice, TFolder } from "obsidian";
 import * as logger from "../logger";
-import { ExternalCalendarService, ExternalCalendarEvent } from "../external-calendar-service";
+import { ExternalCalendarService, ExternalCalendarEvent, ExternalCalendarFetchResult, ExternalCalendarPerson } from "../external-calendar-service";
 import { createMeetingNoteFromExternalEvent } from "../external-event-modal";
 import { formatDateTimeForFrontmatter } from "../utils";
+import { EventNoteEntry, EventNoteIndex } from "./event-note-index";
+import { ensureFolder, formatMeetingNoteName, joinFolder } from "./meeting-note-name";
+import { AutoCreateRule, shouldAutoCreate } from "./auto-create-rules";
+import { FrontmatterMapping, MAPPED_EVENT_FIELDS, MappedEventField, buildMappedFrontmatter, collectLinkedPeople } from "./frontmatter-mapping";
+import { overlapsRange } from "./ical-parser";
+import { PeopleResolver } from "./people-resolver";
+import { SyncJournal, SyncJournalChange, SyncJournalEntry, SyncJournalSource } from "./sync-journal";
+import { SYNC_SNAPSHOT_FIELDS, SYNC_SNAPSHOT_KEYS, SyncSnapshotField, buildSyncSnapshot, readSyncSnapshot } from "./sync-snapshot";
 
 export interface AutoCreateServiceConfig {
     autoCreateMeetingNotes: boolean;
     meetingNoteFolder: string;
     meetingNoteTemplate: string;
+    /** Filename/folder pattern for meeting notes, see formatMeetingNoteName. */
+    meetingNoteFilenamePattern: string;
     autoCreateDailyNote: boolean;
     startProperty: string;
     endProperty: string;
@@ -16,38 +26,164 @@ export interface AutoCreateServiceConfig {
     syncOnEventDelete: 'delete' | 'archive' | 'nothing';
     archiveFolder: string;
     canceledStatusValue: string | null;
+    /** Abort a run that would delete/archive more than this many notes. 0 disables the check. */
+    maxRemovalsPerSync: number;
+    /** Vault path of the sync journal note. Empty disables the journal. */
+    syncJournalPath: string;
+    /** Creation window, in days around now. */
+    syncPastDays: number;
+    syncFutureDays: number;
+    /** Only create notes for events starting within the next N hours. 0 disables the limit. */
+    createWithinHours: number;
+    /** Orphan window, in days around now. Notes outside it are never removed as orphans. */
+    orphanPastDays: number;
+    orphanFutureDays: number;
+    /** Include/exclude rules deciding which events get a note. Empty creates notes for all events. */
+    autoCreateRules: AutoCreateRule[];
+    /** Event fields copied into frontmatter on create and kept in sync on update. */
+    frontmatterMappings: FrontmatterMapping[];
 }
 
-interface VaultNoteIndex {
-    file: TFile;
-    googleEventId: string;
-    uid: string;
-    startDate: Date | null;
+export interface AutoCreateSyncResult {
+    created: number;
+    updated: number;
+    deleted: number;
+    /** Sources whose fetch failed; orphan handling was skipped for their notes this run. */
+    failedSources: string[];
+    /** Set when the removal safety cap stopped the run before any note was touched. */
+    aborted: boolean;
+    /** Notes edited both locally and on the calendar under the 'ask' policy, waiting for the user. */
+    conflicts: SyncAction[];
+}
+
+export type SyncActionKind = 'create' | 'update' | 'rename' | 'remove' | 'conflict';
+export type SyncRemovalMode = 'delete' | 'archive' | 'cancel';
+/** What happens when a field changed both in the note and on the calendar since the last sync. */
+export type SyncConflictPolicy = 'remote' | 'local' | 'ask';
+
+/** Note fields a calendar can own. Fields it does not own are left alone once the note exists. */
+export type SyncOwnedField = 'start' | 'end' | 'title' | 'filename' | 'location' | 'attendees';
+
+export const SYNC_OWNED_FIELDS: SyncOwnedField[] = ['start', 'end', 'title', 'filename', 'location', 'attendees'];
+
+/** Matches what sync has always overwritten; location and attendees were never synced before. */
+export const DEFAULT_REMOTE_FIELDS: SyncOwnedField[] = ['start', 'end', 'title', 'filename'];
+
+const isOwnableField = (field: MappedEventField): field is MappedEventField & SyncOwnedField =>
+    (SYNC_OWNED_FIELDS as string[]).includes(field);
+
+/**
+ * Mapped event fields later syncs overwrite for a calendar. New notes get every mapped field;
+ * afterwards location and attendees only follow the calendar while it owns them.
+ */
+export function getSyncedMappedFields(remoteFields: SyncOwnedField[]): MappedEventField[] {
+    return MAPPED_EVENT_FIELDS
+        .map(entry => entry.value)
+        .filter(field => !isOwnableField(field) || remoteFields.includes(field));
+}
+
+/**
+ * Per-calendar sync options, keyed by source URL.
+ */
+export interface CalendarSyncOptions {
+    /** Display name, used for the {{calendar}} filename token. */
+    name: string;
+    tag: string | null;
+    conflictPolicy: SyncConflictPolicy;
+    /** False stops this calendar from creating notes; existing notes still sync. */
+    autoCreate: boolean;
+    /** Overrides of the global meeting-note settings. Null uses the global value. */
+    folder: string | null;
+    template: string | null;
+    filenamePattern: string | null;
+    /** Fields the calendar overwrites on every sync. */
+    remoteFields: SyncOwnedField[];
+}
+
+export interface SyncFieldChange {
+    from: unknown;
+    to: unknown;
+}
+
+/**
+ * A field that changed on both sides. Each resolution is a ready-to-apply set of frontmatter writes.
+ */
+export interface SyncFieldConflict {
+    field: SyncSnapshotField;
+    local: string;
+    remote: string;
+    useRemote: Record<string, SyncFieldChange>;
+    keepLocal: Record<string, SyncFieldChange>;
+}
+
+/**
+ * One planned change to the vault. Produced by planSync, applied by applySyncPlan.
+ */
+export interface SyncAction {
+    id: string;
+    kind: SyncActionKind;
+    event?: ExternalCalendarEvent;
+    file?: TFile;
+    /** create: options of the calendar the event came from */
+    calendar?: CalendarSyncOptions;
+    /** update: frontmatter key -> current and new value */
+    changes?: Record<string, SyncFieldChange>;
+    /** rename: new basename, without extension */
+    newBaseName?: string;
+    /** rename: target folder when the pattern files notes into subfolders */
+    newFolder?: string;
+    /** remove: what happens to the note and why */
+    removal?: SyncRemovalMode;
+    reason?: 'cancelled' | 'orphan';
+    /** conflict: fields waiting for a decision */
+    conflicts?: SyncFieldConflict[];
+}
+
+export interface SyncPlan {
+    actions: SyncAction[];
+    sources: SyncJournalSource[];
+    failedSources: string[];
 }
 
 export class AutoCreateService {
     app: App;
     config: AutoCreateServiceConfig;
+    private noteIndex: EventNoteIndex;
+    private people: PeopleResolver;
+    private journal: SyncJournal;
     private isSyncing = false;
     private lastVaultChangeTimestamp: number;
     private readonly VAULT_IDLE_THRESHOLD_MS = 5000;
     private readonly VAULT_START_DELAY_MS = 1000;
     private readonly VAULT_MAX_WAIT_MS = 60000;
 
-    constructor(app: App) {
+    constructor(app: App, noteIndex: EventNoteIndex, people: PeopleResolver) {
         this.app = app;
+        this.noteIndex = noteIndex;
+        this.people = people;
         this.config = {
             autoCreateMeetingNotes: false,
             meetingNoteFolder: "",
             meetingNoteTemplate: "",
+            meetingNoteFilenamePattern: "",
             autoCreateDailyNote: false,
-            startProperty: "date",
-            endProperty: "end",
-            useEndDuration: false,
+            startProperty: "scheduled",
+            endProperty: "timeEstimate",
+            useEndDuration: true,
             syncOnEventDelete: 'nothing',
             archiveFolder: "",
             canceledStatusValue: null,
+            maxRemovalsPerSync: 10,
+            syncJournalPath: "",
+            syncPastDays: 7,
+            syncFutureDays: 14,
+            createWithinHours: 0,
+            orphanPastDays: 7,
+            orphanFutureDays: 14,
+            autoCreateRules: [],
+            frontmatterMappings: [],
         };
+        this.journal = new SyncJournal(app);
         this.lastVaultChangeTimestamp = Date.now() - this.VAULT_IDLE_THRESHOLD_MS * 2;
         const updateTimestamp = () => {
             this.lastVaultChangeTimestamp = Date.now();
@@ -73,17 +209,17 @@ export class AutoCreateService {
         externalCalendarService: ExternalCalendarService,
         urls: string[],
         externalCalendarFilter: string,
-        calendarTags: Record<string, string>,
+        calendarOptions: Record<string, CalendarSyncOptions>,
         hiddenEvents: string[]
-    ) {
+    ): Promise<AutoCreateSyncResult | null> {
         if (this.isSyncing) {
             logger.log('[AutoCreateService] Sync already in progress, skipping');
-            return;
+            return null;
         }
 
         if (!this.config.autoCreateMeetingNotes) {
             logger.log('[AutoCreateService] Auto-create disabled');
-            return;
+            return null;
         }
 
         await this.waitForVaultToSettle();
@@ -92,65 +228,298 @@ export class AutoCreateService {
         logger.log('[AutoCreateService] Starting robust sync...');
 
         try {
-            // 1. Define Sync Window
-            const start = new Date();
-            start.setDate(start.getDate() - 7);
-            const end = new Date();
-            end.setDate(end.getDate() + 14);
-
-            // 2. Fetch All Remote Events
-            const remoteEvents = await this.fetchAllRemoteEvents(externalCalendarService, urls, start, end, externalCalendarFilter);
-            
-            // 3. Index Local Notes
-            const vaultIndex = this.buildVaultIndex();
-
-            // 4. Reconcile
-            let created = 0;
-            let updated = 0;
-            let deleted = 0;
-
-            const matchedFiles = new Set<string>();
-
-            for (const event of remoteEvents) {
-                // Skip hidden events logic REMOVED.
-                // We must process hidden events if a note ALREADY exists for them, to update/delete it.
-                // We only skip creation if hidden.
-                
-                const result = await this.processEvent(event, vaultIndex, calendarTags[event.sourceUrl || ""], hiddenEvents);
-                if (result.action === 'created') created++;
-                if (result.action === 'updated') updated++;
-                if (result.action === 'deleted') deleted++;
-                
-                if (result.file) {
-                    matchedFiles.add(result.file.path);
-                }
+            const plan = await this.buildSyncPlan(externalCalendarService, urls, externalCalendarFilter, calendarOptions, hiddenEvents);
+
+            // Safety cap: refuse to remove a suspicious number of notes in one go
+            const removals = plan.actions.filter(action => action.kind === 'remove' && action.removal !== 'cancel');
+            const cap = this.config.maxRemovalsPerSync;
+            if (cap > 0 && removals.length > cap) {
+                logger.warn(`[AutoCreateService] Aborting sync: ${removals.length} notes would be removed (limit ${cap})`);
+                new Notice(`Calendar Sync aborted: ${removals.length} meeting notes would be removed (limit ${cap}). Check your calendar feeds or raise the limit in settings.`);
+                await this.writeJournal('sync', plan, [], `${removals.length} notes would be removed (limit ${cap})`);
+                return { created: 0, updated: 0, deleted: 0, failedSources: plan.failedSources, aborted: true, conflicts: [] };
             }
 
-            // 5. Handle Orphans (Events deleted from calendar but note exists)
-            // We only delete if the note falls within our sync window (to avoid deleting ancient history)
-            for (const note of vaultIndex) {
-                if (matchedFiles.has(note.file.path)) continue;
+            const changes: SyncJournalChange[] = [];
+            const result = await this.executeActions(plan.actions, plan.failedSources, changes);
+            await this.writeJournal('sync', plan, changes);
+            this.notifyResult(result);
+            return result;
+        } catch (e) {
+            logger.error('[AutoCreateService] Sync failed:', e);
+            return null;
+        } finally {
+            this.isSyncing = false;
+        }
+    }
+
+    /**
+     * Dry run: computes the same plan as a sync without touching the vault.
+     * Works even when auto-create is disabled, so users can inspect before enabling it.
+     */
+    async planSync(
+        externalCalendarService: ExternalCalendarService,
+        urls: string[],
+        externalCalendarFilter: string,
+        calendarOptions: Record<string, CalendarSyncOptions>,
+        hiddenEvents: string[]
+    ): Promise<SyncPlan | null> {
+        if (this.isSyncing) {
+            logger.log('[AutoCreateService] Sync already in progress, skipping preview');
+            return null;
+        }
+        this.isSyncing = true;
+        try {
+            return await this.buildSyncPlan(externalCalendarService, urls, externalCalendarFilter, calendarOptions, hiddenEvents);
+        } catch (e) {
+            logger.error('[AutoCreateService] Sync preview failed:', e);
+            return null;
+        } finally {
+            this.isSyncing = false;
+        }
+    }
+
+    /**
+     * Applies the approved subset of a plan returned by planSync.
+     */
+    async applySyncPlan(plan: SyncPlan, approved: SyncAction[]): Promise<AutoCreateSyncResult | null> {
+        if (this.isSyncing) {
+            logger.log('[AutoCreateService] Sync already in progress, skipping apply');
+            return null;
+        }
+        this.isSyncing = true;
+        try {
+            const approvedIds = new Set(approved.map(action => action.id));
+            const actions = plan.actions.filter(action => approvedIds.has(action.id));
+            const changes: SyncJournalChange[] = [];
+            const result = await this.executeActions(actions, plan.failedSources, changes);
+            await this.writeJournal('preview', plan, changes);
+            this.notifyResult(result);
+            return result;
+        } catch (e) {
+            logger.error('[AutoCreateService] Applying sync plan failed:', e);
+            return null;
+        } finally {
+            this.isSyncing = false;
+        }
+    }
+
+    /**
+     * Applies the user's choices from the conflict modal. Each entry is an update carrying the chosen writes.
+     */
+    async resolveConflicts(resolutions: SyncAction[]): Promise<AutoCreateSyncResult | null> {
+        if (this.isSyncing) {
+            logger.log('[AutoCreateService] Sync already in progress, skipping conflict resolution');
+            return null;
+        }
+        this.isSyncing = true;
+        try {
+            const plan: SyncPlan = { actions: resolutions, sources: [], failedSources: [] };
+            const changes: SyncJournalChange[] = [];
+            const result = await this.executeActions(resolutions, [], changes);
+            await this.writeJournal('conflict', plan, changes);
+            return result;
+        } catch (e) {
+            logger.error('[AutoCreateService] Resolving conflicts failed:', e);
+            return null;
+        } finally {
+            this.isSyncing = false;
+        }
+    }
 
-                // Check if note date is within window
-                if (note.startDate && note.startDate >= start && note.startDate <= end) {
+    private async buildSyncPlan(
+        externalCalendarService: ExternalCalendarService,
+        urls: string[],
+        externalCalendarFilter: string,
+        calendarOptions: Record<string, CalendarSyncOptions>,
+        hiddenEvents: string[]
+    ): Promise<SyncPlan> {
+        // 1. Define Sync Windows
+        // We fetch the union of the creation and orphan windows; each pass then applies its own bounds.
+        const now = new Date();
+        const createStart = this.offsetDays(now, -this.config.syncPastDays);
+        const createEnd = this.offsetDays(now, this.config.syncFutureDays);
+        const orphanStart = this.offsetDays(now, -this.config.orphanPastDays);
+        const orphanEnd = this.offsetDays(now, this.config.orphanFutureDays);
+        const start = createStart < orphanStart ? createStart : orphanStart;
+        const end = createEnd > orphanEnd ? createEnd : orphanEnd;
+
+        this.people.refresh();
+
+        // 2. Fetch All Remote Events
+        const { events: remoteEvents, sources } = await this.fetchAllRemoteEvents(externalCalendarService, urls, start, end, externalCalendarFilter);
+        const failedSources = sources.filter(source => !source.ok).map(source => source.url);
+
+        // 3. Plan per remote event
+        const actions: SyncAction[] = [];
+        const matchedFiles = new Set<string>();
+        const removedFiles = new Set<string>();
+        const removal = this.resolveRemovalMode();
+        const nextId = () => `action-${actions.length}`;
+
+        for (const event of remoteEvents) {
+            const match = this.noteIndex.findMatch(event);
+            if (match) matchedFiles.add(match.file.path);
+
+            // Hidden events are still processed when a note ALREADY exists for them, to update/delete it.
+            // We only skip creation if hidden.
+            const canCreate = this.isInCreationWindow(event, now, createStart, createEnd);
+            for (const action of this.planEvent(event, match, calendarOptions[event.sourceUrl || ""], hiddenEvents, canCreate)) {
+                if (action.kind === 'remove') {
+                    const path = action.file?.path;
+                    if (!removal || !path || removedFiles.has(path)) continue;
+                    removedFiles.add(path);
+                    action.removal = removal;
+                }
+                actions.push({ ...action, id: nextId() });
+            }
+        }
+
+        // 4. Orphans (Events deleted from calendar but note exists)
+        // A failed source says nothing about its events, so its notes are left alone. Notes without
+        // a calendarUrl could belong to any calendar and are skipped whenever a source failed.
+        if (failedSources.length > 0) {
+            logger.warn(`[AutoCreateService] Skipping orphan check for ${failedSources.length} failed source(s)`);
+        }
+        if (removal) {
+            const failed = new Set(failedSources);
+            for (const note of this.noteIndex.getEntries()) {
+                if (matchedFiles.has(note.file.path) || removedFiles.has(note.file.path)) continue;
+                if (failed.size > 0 && (!note.calendarUrl || failed.has(note.calendarUrl))) continue;
+
+                // We only delete if the note falls within the orphan window (to avoid deleting ancient history)
+                const startDate = this.getNoteStartDate(note.file);
+                if (startDate && startDate >= orphanStart && startDate <= orphanEnd) {
                     // This note has a googleEventId but no corresponding event was found in the fetch.
                     // This implies the event was deleted remotely.
-                    // logger.log(`[AutoCreateService] Detected orphan note: ${note.file.basename}`);
-                    await this.deleteOrArchive(note.file);
-                    deleted++;
+                    actions.push({ id: nextId(), kind: 'remove', file: note.file, removal, reason: 'orphan' });
                 }
             }
+        }
 
-            if (created + updated + deleted > 0) {
-                new Notice(`Calendar Sync: ${created} created, ${updated} updated, ${deleted} deleted`);
-            } else {
-                logger.log('[AutoCreateService] No changes.');
+        return {
+            actions,
+            sources: sources.map(source => ({ url: source.url, ok: source.ok, error: source.error })),
+            failedSources,
+        };
+    }
+
+    private async executeActions(
+        actions: SyncAction[],
+        failedSources: string[],
+        changes: SyncJournalChange[]
+    ): Promise<AutoCreateSyncResult> {
+        let created = 0;
+        let deleted = 0;
+        const updatedFiles = new Set<TFile>();
+        const conflicts: SyncAction[] = [];
+
+        // Removals last, so a rename/update on the same note never runs against a moved file
+        const ordered = [
+            ...actions.filter(action => action.kind !== 'remove'),
+            ...actions.filter(action => action.kind === 'remove'),
+        ];
+
+        for (const action of ordered) {
+            try {
+                if ((action.kind === 'create' || action.kind === 'update') && action.event) {
+                    await this.people.ensureStubs(collectLinkedPeople(action.event, this.config.frontmatterMappings));
+                }
+
+                if (action.kind === 'create' && action.event) {
+                    const calendar = action.calendar;
+                    const file = await createMeetingNoteFromExternalEvent(
+                        this.app,
+                        action.event,
+                        calendar?.template ?? this.config.meetingNoteTemplate,
+                        calendar?.folder ?? this.config.meetingNoteFolder,
+                        this.config.startProperty,
+                        this.config.endProperty,
+                        this.config.useEndDuration,
+                        calendar?.tag ?? null,
+                        calendar?.filenamePattern ?? this.config.meetingNoteFilenamePattern,
+                        calendar?.name ?? null,
+                        buildMappedFrontmatter(action.event, this.config.frontmatterMappings, undefined, this.linkPerson)
+                    );
+                    if (file) {
+                        created++;
+                        changes.push({ kind: 'created', path: file.path });
+                    }
+                    continue;
+                }
+
+                const file = action.file;
+                if (!file || !this.isStillInVault(file)) continue;
+
+                if (action.kind === 'conflict') {
+                    // Nothing to write until the user picks a side
+                    conflicts.push(action);
+                    continue;
+                }
+
+                if (action.kind === 'update' && action.changes) {
+                    const fieldChanges = action.changes;
+                    await this.app.fileManager.processFrontMatter(file, (fm) => {
+                        for (const [key, change] of Object.entries(fieldChanges)) {
+                            fm[key] = change.to;
+                        }
+                    });
+                    updatedFiles.add(file);
+                    changes.push({ kind: 'updated', path: file.path, fields: Object.keys(fieldChanges) });
+                } else if (action.kind === 'rename' && action.newBaseName) {
+                    const from = file.path;
+                    const folder = action.newFolder ?? file.parent?.path ?? "";
+                    if (folder) await ensureFolder(this.app, folder);
+                    const to = await this.renameFileUnique(file, action.newBaseName, folder);
+                    updatedFiles.add(file);
+                    if (to !== from) changes.push({ kind: 'renamed', from, to });
+                } else if (action.kind === 'remove' && action.removal) {
+                    const from = file.path;
+                    const to = await this.removeNote(file, action.removal);
+                    deleted++;
+                    if (action.removal === 'archive') {
+                        changes.push({ kind: 'archived', from, to: to ?? from });
+                    } else if (action.removal === 'delete') {
+                        changes.push({ kind: 'deleted', path: from });
+                    } else {
+                        changes.push({ kind: 'cancelled', path: from });
+                    }
+                }
+            } catch (e) {
+                logger.error(`[AutoCreateService] Failed to apply ${action.kind} action`, e);
             }
+        }
 
-        } catch (e) {
-            logger.error('[AutoCreateService] Sync failed:', e);
-        } finally {
-            this.isSyncing = false;
+        return { created, updated: updatedFiles.size, deleted, failedSources, aborted: false, conflicts };
+    }
+
+    private async writeJournal(
+        trigger: SyncJournalEntry['trigger'],
+        plan: SyncPlan,
+        changes: SyncJournalChange[],
+        aborted?: string
+    ) {
+        const path = this.config.syncJournalPath?.trim();
+        if (!path) return;
+        await this.journal.append(path, {
+            timestamp: new Date(),
+            trigger,
+            sources: plan.sources,
+            changes,
+            aborted,
+        });
+    }
+
+    private notifyResult(result: AutoCreateSyncResult) {
+        const { created, updated, deleted, failedSources } = result;
+        if (failedSources.length > 0) {
+            new Notice(`Calendar Sync: ${failedSources.length} calendar(s) failed to load; their notes were not checked for removal.`);
+        }
+
+        if (created + updated + deleted > 0) {
+            new Notice(`Calendar Sync: ${created} created, ${updated} updated, ${deleted} deleted`);
+        } else {
+            logger.log('[AutoCreateService] No changes.');
         }
     }
 
@@ -195,239 +564,334 @@ export class AutoCreateService {
         start: Date, 
         end: Date,
         filter: string
-    ): Promise<ExternalCalendarEvent[]> {
+    ): Promise<{ events: ExternalCalendarEvent[]; sources: ExternalCalendarFetchResult[] }> {
         const results: ExternalCalendarEvent[] = [];
+        const sources: ExternalCalendarFetchResult[] = [];
         const filterTerms = filter.split(',').map(s => s.trim().toLowerCase()).filter(Boolean);
 
         for (const url of urls) {
-            try {
-                // Fetch ALL events, including cancelled
-                const events = await service.fetchEvents(url, start, end, true);
-                
-                for (const event of events) {
-                    // Apply Title Filter (ONLY if event is NOT cancelled)
-                    // If event is cancelled, we need it to trigger deletion of local note
-                    if (!event.isCancelled && filterTerms.length > 0) {
-                        const lowerTitle = (event.title || "").toLowerCase();
-                        if (filterTerms.some(t => lowerTitle.includes(t))) {
-                            continue; 
-                        }
+            // Fetch ALL events, including cancelled
+            const source = await service.fetchEventsWithStatus(url, start, end, true);
+            sources.push(source);
+            if (!source.ok) {
+                logger.error(`Failed to fetch ${url}: ${source.error ?? 'unknown error'}`);
+                continue;
+            }
+
+            for (const event of source.events) {
+                // Apply Title Filter (ONLY if event is NOT cancelled)
+                // If event is cancelled, we need it to trigger deletion of local note
+                if (!event.isCancelled && filterTerms.length > 0) {
+                    const lowerTitle = (event.title || "").toLowerCase();
+                    if (filterTerms.some(t => lowerTitle.includes(t))) {
+                        continue; 
                     }
-                    results.push(event);
                 }
-            } catch (e) {
-                logger.error(`Failed to fetch ${url}`, e);
+                results.push(event);
             }
         }
-        return results;
+        return { events: results, sources };
     }
 
-    private buildVaultIndex(): VaultNoteIndex[] {
-        const index: VaultNoteIndex[] = [];
-        const files = this.app.vault.getMarkdownFiles();
-        
-        for (const file of files) {
-            const cache = this.app.metadataCache.getFileCache(file);
-            const fm = cache?.frontmatter;
-            if (!fm) continue;
-
-            const googleEventId = fm.googleEventId ? String(fm.googleEventId) : null;
-            if (!googleEventId) continue;
-
-            // Extract UID
-            // Format 1 (Standard): UID
-            // Format 2 (Recurring): UID-Timestamp
-            let uid = googleEventId;
-            const lastDash = googleEventId.lastIndexOf('-');
-            if (lastDash > 0) {
-                const suffix = googleEventId.substring(lastDash + 1);
-                if (/^\d+$/.test(suffix)) {
-                    uid = googleEventId.substring(0, lastDash);
-                }
-            }
-
-            // Start Date
-            let startDate: Date | null = null;
-            const startVal = fm.scheduled || fm[this.config.startProperty];
-            if (startVal) {
-                startDate = new Date(startVal);
-            }
-
-            index.push({
-                file,
-                googleEventId,
-                uid,
-                startDate
-            });
-        }
-        return index;
+    private getNoteStartDate(file: TFile): Date | null {
+        const fm = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        const startVal = fm?.scheduled || fm?.[this.config.startProperty];
+        return startVal ? new Date(startVal) : null;
     }
 
-    private async processEvent(
+    private planEvent(
         event: ExternalCalendarEvent, 
-        index: VaultNoteIndex[],
-        calendarTag: string | null,
-        hiddenEvents: string[]
-    ): Promise<{ action: 'created' | 'updated' | 'deleted' | 'none', file?: TFile }> {
-        
-        // 1. Find Matching Note
-        let match = index.find(n => n.googleEventId === event.id);
-        
-        // 2. Fuzzy Match (For Reschedules)
-        if (!match) {
-            const candidates = index.filter(n => n.uid === event.uid);
-            
-            if (candidates.length > 0) {
-                const isRecurringInstance = event.id.includes('-') && event.id !== event.uid;
-                
-                if (isRecurringInstance) {
-                    // Extract Recurrence ID from Event ID (Remote)
-                    // Format: UID-Timestamp
-                    const eventRecurrenceId = event.id.substring(event.id.lastIndexOf('-') + 1);
-                    const eventRidTs = parseInt(eventRecurrenceId);
-                    
-                    if (!isNaN(eventRidTs)) {
-                        match = candidates.find(n => {
-                            const noteRid = n.googleEventId.substring(n.googleEventId.lastIndexOf('-') + 1);
-                            const noteRidTs = parseInt(noteRid);
-                            
-                            if (isNaN(noteRidTs)) return false;
-                            
-                            // 65 min tolerance for TZ drift
-                            if (Math.abs(eventRidTs - noteRidTs) < 65 * 60 * 1000) {
-                                return true;
-                            }
-                            
-                            // Component match
-                            const d1 = new Date(eventRidTs);
-                            const d2 = new Date(noteRidTs);
-                            if (
-                                d1.getUTCHours() === d2.getUTCHours() && 
-                                d1.getUTCMinutes() === d2.getUTCMinutes() &&
-                                d1.getUTCDate() === d2.getUTCDate()
-                            ) {
-                                return true;
-                            }
-                            return false;
-                        });
-                    }
-                } else {
-                    // Single event
-                    if (candidates.length === 1) {
-                        match = candidates[0];
-                    }
-                }
-            }
-        }
-
+        match: EventNoteEntry | undefined,
+        options: CalendarSyncOptions | undefined,
+        hiddenEvents: string[],
+        canCreate: boolean
+    ): Omit<SyncAction, 'id'>[] {
         // 3. Process Match
         if (match) {
+            const file = match.file;
+
             // IS CANCELLED?
             if (event.isCancelled) {
-                await this.deleteOrArchive(match.file);
-                return { action: 'deleted' };
+                return [{ kind: 'remove', file, event, reason: 'cancelled' }];
             }
 
             // UPDATE
-            const file = match.file;
-            let updated = false;
+            const actions: Omit<SyncAction, 'id'>[] = [];
+            const remoteFields = options?.remoteFields ?? DEFAULT_REMOTE_FIELDS;
+            const { changes, conflicts, title, startDate } = this.reconcileFrontmatter(
+                file,
+                event,
+                options?.conflictPolicy ?? 'remote',
+                remoteFields
+            );
+            if (Object.keys(changes).length > 0) {
+                actions.push({ kind: 'update', file, event, changes });
+            }
+            if (conflicts.length > 0) {
+                actions.push({ kind: 'conflict', file, event, conflicts });
+            }
 
-            // Update Frontmatter
-            await this.app.fileManager.processFrontMatter(file, (fm) => {
-                if (fm.googleEventId !== event.id) {
-                    fm.googleEventId = event.id;
-                    updated = true;
-                }
-                const fmtStart = formatDateTimeForFrontmatter(event.startDate);
-                if (fm[this.config.startProperty] !== fmtStart) {
-                    fm[this.config.startProperty] = fmtStart;
-                    updated = true;
-                }
-                if (fm.scheduled !== undefined && fm.scheduled !== fmtStart) {
-                    fm.scheduled = fmtStart;
-                    updated = true;
-                }
-                // End date logic...
-                // If view said useEndDuration=false, force end property
-                if (!this.config.useEndDuration) {
-                    const fmtEnd = formatDateTimeForFrontmatter(event.endDate);
-                    if (fm[this.config.endProperty] !== fmtEnd) {
-                        fm[this.config.endProperty] = fmtEnd;
-                        updated = true;
-                    }
-                } else {
-                    // Default behavior (or if useEndDuration=true): set duration
-                    const dur = Math.round((event.endDate.getTime() - event.startDate.getTime()) / 60000);
-                    if (fm[this.config.endProperty] !== dur) {
-                        fm[this.config.endProperty] = dur;
-                        updated = true;
-                    }
-                }
-                if (fm.title !== event.title) {
-                    fm.title = event.title;
-                    updated = true;
-                }
-            });
+            // Rename File (after the values the note keeps, so a local move renames it too)
+            if (!remoteFields.includes('filename')) return actions;
+            const pattern = options?.filenamePattern ?? this.config.meetingNoteFilenamePattern;
+            const expected = formatMeetingNoteName(pattern, { title, startDate }, options?.name ?? "");
+            const newFolder = this.resolvePatternFolder(file, expected.folder, options?.folder ?? this.config.meetingNoteFolder);
 
-            // Rename File
-            const sanitizedTitle = event.title.replace(/[\\/:*?"<>|]/g, "").replace(/\s+/g, " ").trim();
-            const dateSuffix = `${event.startDate.getFullYear()}-${String(event.startDate.getMonth() + 1).padStart(2, "0")}-${String(event.startDate.getDate()).padStart(2, "0")}`;
-            const expectedPrefix = `${sanitizedTitle} ${dateSuffix}`;
-            
-            if (!file.basename.startsWith(expectedPrefix)) {
-                await this.renameFileUnique(file, expectedPrefix, file.parent?.path || "");
-                updated = true;
+            if (!file.basename.startsWith(expected.baseName) || newFolder !== undefined) {
+                actions.push({ kind: 'rename', file, event, newBaseName: expected.baseName, newFolder });
             }
 
-            return { action: updated ? 'updated' : 'none', file };
+            return actions;
         }
 
         // 4. Process New (Creation)
         // Check Hidden Status HERE. Only block CREATION if hidden.
         // If it was matched above, we processed it regardless of hidden status (to keep it in sync).
-        if (!event.isCancelled) {
+        // Events the user declined never get a note; an existing note is still kept in sync above
+        if (!event.isCancelled && event.myPartstat !== 'declined' && canCreate && options?.autoCreate !== false) {
             // Stable ID check: Check if UID is hidden (for stable hiding)
             // Or if specific ID is hidden
             const isHidden = hiddenEvents.includes(event.id) || hiddenEvents.includes(event.uid);
             
-            if (isHidden) {
-                return { action: 'none' };
+            if (!isHidden && shouldAutoCreate(this.config.autoCreateRules, event)) {
+                return [{ kind: 'create', event, calendar: options }];
             }
+        }
 
-            try {
-                const file = await createMeetingNoteFromExternalEvent(
-                    this.app,
-                    event,
-                    this.config.meetingNoteTemplate,
-                    this.config.meetingNoteFolder,
-                    this.config.startProperty,
-                    this.config.endProperty,
-                    this.config.useEndDuration,
-                    calendarTag
-                );
-                if (file) return { action: 'created', file };
-            } catch (e) {
-                logger.error(`Failed to create note for ${event.title}`, e);
+        return [];
+    }
+
+    /**
+     * Three-way merge of note, last-synced snapshot and remote event.
+     * Remote-only changes are applied, local-only changes are kept, and fields changed on
+     * both sides follow the calendar's conflict policy. Notes without a snapshot take the remote values.
+     * Fields the calendar does not own are never touched.
+     * Returns the writes plus the title and start the note ends up with.
+     */
+    private reconcileFrontmatter(
+        file: TFile,
+        event: ExternalCalendarEvent,
+        policy: SyncConflictPolicy,
+        remoteFields: SyncOwnedField[]
+    ): { changes: Record<string, SyncFieldChange>; conflicts: SyncFieldConflict[]; title: string; startDate: Date } {
+        const fm = this.app.metadataCache.getFileCache(file)?.frontmatter ?? {};
+        const changes: Record<string, SyncFieldChange> = {};
+        const conflicts: SyncFieldConflict[] = [];
+        const set = (target: Record<string, SyncFieldChange>, key: string, value: unknown) => {
+            if (!this.sameFrontmatterValue(fm[key], value)) {
+                target[key] = { from: fm[key], to: value };
+            }
+        };
+
+        set(changes, 'googleEventId', event.id);
+        if (event.sourceUrl) set(changes, 'calendarUrl', event.sourceUrl);
+
+        const base = readSyncSnapshot(fm);
+        const remote = buildSyncSnapshot(event);
+        const local = this.readLocalValues(fm);
+
+        // Writes that put the remote value of a field into the note
+        const remoteWrites = (field: SyncSnapshotField, startDate: Date): Record<string, SyncFieldChange> => {
+            const writes: Record<string, SyncFieldChange> = {};
+            if (field === 'start') {
+                set(writes, this.config.startProperty, remote.start);
+                if (fm.scheduled !== undefined) {
+                    set(writes, 'scheduled', remote.start);
+                }
+            } else if (field === 'end') {
+                // If view said useEndDuration=false, force end property
+                if (!this.config.useEndDuration) {
+                    set(writes, this.config.endProperty, remote.end);
+                } else {
+                    // Duration is relative to whatever start the note keeps
+                    set(writes, this.config.endProperty, Math.round((event.endDate.getTime() - startDate.getTime()) / 60000));
+                }
+            } else {
+                set(writes, 'title', remote.title);
+            }
+            return writes;
+        };
+        const snapshotWrite = (field: SyncSnapshotField): Record<string, SyncFieldChange> => {
+            const writes: Record<string, SyncFieldChange> = {};
+            set(writes, SYNC_SNAPSHOT_KEYS[field], remote[field]);
+            return writes;
+        };
+
+        let startDate = local.start ? new Date(local.start) : event.startDate;
+        let title = local.title ?? event.title;
+
+        for (const field of SYNC_SNAPSHOT_FIELDS) {
+            if (!remoteFields.includes(field)) continue;
+            const baseValue = base[field];
+            const localValue = local[field];
+            const remoteChanged = baseValue === undefined || !this.sameValue(field, baseValue, remote[field]);
+            const localChanged = baseValue !== undefined && localValue !== undefined && !this.sameValue(field, localValue, baseValue);
+
+            if (!remoteChanged) continue;
+
+            // Set when the note holds a local edit that disagrees with the calendar
+            const localEdit = localChanged && localValue !== undefined && !this.sameValue(field, localValue, remote[field])
+                ? localValue
+                : undefined;
+            let takeRemote = localEdit === undefined;
+            if (localEdit !== undefined && policy === 'ask') {
+                conflicts.push({
+                    field,
+                    local: localEdit,
+                    remote: remote[field],
+                    useRemote: { ...remoteWrites(field, startDate), ...snapshotWrite(field) },
+                    keepLocal: snapshotWrite(field),
+                });
+                continue;
             }
+            if (!takeRemote && policy === 'remote') {
+                takeRemote = true;
+            }
+
+            if (takeRemote) {
+                Object.assign(changes, remoteWrites(field, startDate));
+                if (field === 'start') startDate = event.startDate;
+                if (field === 'title') title = event.title;
+            }
+            // Local wins still advances the snapshot, so the same remote change is not re-reported
+            Object.assign(changes, snapshotWrite(field));
+        }
+
+        // A kept start changes the duration the remote end maps to; recompute it if end was left alone
+        if (this.config.useEndDuration && !changes[this.config.endProperty] && changes[this.config.startProperty] && local.end) {
+            set(changes, this.config.endProperty, Math.round((new Date(local.end).getTime() - startDate.getTime()) / 60000));
+        }
+
+        // Mapped fields have no local edit tracking; the calendar simply overwrites them.
+        const mappedFields = getSyncedMappedFields(remoteFields);
+        for (const [key, value] of Object.entries(buildMappedFrontmatter(event, this.config.frontmatterMappings, mappedFields, this.linkPerson))) {
+            set(changes, key, value);
+        }
+
+        if (Number.isNaN(startDate.getTime())) startDate = event.startDate;
+        return { changes, conflicts, title, startDate };
+    }
+
+    /**
+     * Current start/end/title of a note in snapshot format. End is derived from the duration when configured.
+     */
+    private readLocalValues(fm: Record<string, unknown>): Partial<Record<SyncSnapshotField, string>> {
+        const values: Partial<Record<SyncSnapshotField, string>> = {};
+        const start = this.parseFrontmatterDate(fm[this.config.startProperty] ?? fm.scheduled);
+        if (start) {
+            values.start = formatDateTimeForFrontmatter(start);
+        }
+
+        const endVal = fm[this.config.endProperty];
+        if (endVal !== undefined && endVal !== null && endVal !== "") {
+            if (this.config.useEndDuration) {
+                const minutes = Number(endVal);
+                if (start && Number.isFinite(minutes)) {
+                    values.end = formatDateTimeForFrontmatter(new Date(start.getTime() + minutes * 60000));
+                }
+            } else {
+                const end = this.parseFrontmatterDate(endVal);
+                if (end) {
+                    values.end = formatDateTimeForFrontmatter(end);
+                }
+            }
+        }
+
+        if (fm.title !== undefined && fm.title !== null) {
+            values.title = String(fm.title);
+        }
+        return values;
+    }
+
+    private parseFrontmatterDate(value: unknown): Date | null {
+        if (typeof value !== "string" && typeof value !== "number" && !(value instanceof Date)) return null;
+        if (value === "") return null;
+        const date = new Date(value);
+        return Number.isNaN(date.getTime()) ? null : date;
+    }
+
+    private linkPerson = (person: ExternalCalendarPerson): string => this.people.link(person);
+
+    private sameFrontmatterValue(current: unknown, next: unknown): boolean {
+        if (Array.isArray(current) || Array.isArray(next)) {
+            return JSON.stringify(current ?? []) === JSON.stringify(next ?? []);
         }
+        return current === next;
+    }
+
+    private sameValue(field: SyncSnapshotField, a: string, b: string): boolean {
+        if (field === 'title') return a === b;
+        const left = new Date(a).getTime();
+        const right = new Date(b).getTime();
+        if (Number.isNaN(left) || Number.isNaN(right)) return a === b;
+        return left === right;
+    }
+
+    /**
+     * Folder a note should move to when the pattern has folder tokens (e.g. a month that changed).
+     * Notes outside the meeting note folder were placed by hand and are never moved.
+     * Returns undefined when the note stays where it is.
+     */
+    private resolvePatternFolder(file: TFile, patternFolder: string, baseFolder: string): string | undefined {
+        if (!patternFolder) return undefined;
+        const base = joinFolder(baseFolder, "");
+        const parentPath = file.parent?.path ?? "";
+        const current = parentPath === "/" ? "" : parentPath;
+        if (base && current !== base && !current.startsWith(`${base}/`)) return undefined;
+        const target = joinFolder(base, patternFolder);
+        return target === current ? undefined : target;
+    }
 
-        return { action: 'none' };
+    private offsetDays(from: Date, days: number): Date {
+        const date = new Date(from);
+        date.setDate(date.getDate() + (Number.isFinite(days) ? days : 0));
+        return date;
     }
 
-    private async deleteOrArchive(file: TFile) {
-        if (this.config.syncOnEventDelete === 'delete') {
+    /**
+     * Events overlapping the window count, so a multi-day event that began before it still gets a note.
+     */
+    private isInCreationWindow(event: ExternalCalendarEvent, now: Date, createStart: Date, createEnd: Date): boolean {
+        if (!overlapsRange(event.startDate, event.endDate, createStart, createEnd)) return false;
+        const hours = this.config.createWithinHours;
+        if (hours > 0) {
+            // Only upcoming starts count here; events already in progress are left alone
+            const limit = now.getTime() + hours * 60 * 60 * 1000;
+            const start = event.startDate.getTime();
+            return start >= now.getTime() && start <= limit;
+        }
+        return true;
+    }
+
+    private resolveRemovalMode(): SyncRemovalMode | null {
+        if (this.config.syncOnEventDelete === 'delete') return 'delete';
+        if (this.config.syncOnEventDelete === 'archive') {
+            // Archiving without a folder has nowhere to move the note to
+            return this.config.archiveFolder ? 'archive' : null;
+        }
+        return 'cancel';
+    }
+
+    private isStillInVault(file: TFile): boolean {
+        return this.app.vault.getAbstractFileByPath(file.path) === file;
+    }
+
+    /**
+     * Returns the archived path for 'archive', null otherwise.
+     */
+    private async removeNote(file: TFile, removal: SyncRemovalMode): Promise<string | null> {
+        if (removal === 'delete') {
             await this.app.vault.delete(file);
-        } else if (this.config.syncOnEventDelete === 'archive') {
+        } else if (removal === 'archive') {
             const archiveFolder = this.config.archiveFolder;
-            if (archiveFolder) {
-                if (!this.app.vault.getAbstractFileByPath(archiveFolder)) {
-                    await this.app.vault.createFolder(archiveFolder);
-                }
-                await this.renameFileUnique(file, file.basename, archiveFolder);
+            if (!this.app.vault.getAbstractFileByPath(archiveFolder)) {
+                await this.app.vault.createFolder(archiveFolder);
             }
+            return await this.renameFileUnique(file, file.basename, archiveFolder);
         } else {
             await this.markAsCancelled(file);
         }
+        return null;
     }
 
     private async markAsCancelled(file: TFile) {
@@ -440,15 +904,16 @@ export class AutoCreateService {
         });
     }
 
-    private async renameFileUnique(file: TFile, baseName: string, folderPath: string) {
+    private async renameFileUnique(file: TFile, baseName: string, folderPath: string): Promise<string> {
         let newPath = normalizePath(`${folderPath}/${baseName}.${file.extension}`);
         let counter = 1;
         while (this.app.vault.getAbstractFileByPath(newPath)) {
             const existing = this.app.vault.getAbstractFileByPath(newPath);
-            if (existing === file) return;
+            if (existing === file) return newPath;
             newPath = normalizePath(`${folderPath}/${baseName} ${counter}.${file.extension}`);
             counter++;
         }
         await this.app.fileManager.renameFile(file, newPath);
+        return newPath;
     }
 }
@@ -0,0 +1,321 @@
+import { requestUrl, RequestUrlResponse } from "obsidian";
+import * as logger from "../logger";
+
+const DAV_NS = "DAV:";
+const CALDAV_NS = "urn:ietf:params:xml:ns:caldav";
+const CALENDARSERVER_NS = "http://calendarserver.org/ns/";
+const APPLE_NS = "http://apple.com/ns/ical/";
+
+const XML_PREFIXES = `xmlns:d="${DAV_NS}" xmlns:c="${CALDAV_NS}" xmlns:cs="${CALENDARSERVER_NS}" xmlns:a="${APPLE_NS}"`;
+
+export interface CalDavCalendarInfo {
+    url: string;
+    displayName: string;
+    color: string;
+}
+
+/** One calendar object resource (usually one event series) from a REPORT. */
+export interface CalDavResource {
+    href: string;
+    etag: string;
+    data: string;
+    uid: string;
+}
+
+/** `conflict`: the resource changed on the server since it was read (HTTP 412); the cached copy is now fresh. */
+export type CalDavPutResult = "ok" | "conflict";
+
+/**
+ * Minimal CalDAV client: discovery with PROPFIND, time-range queries with REPORT.
+ * Calendar data is cached per resource and only refetched when its ETag changes.
+ */
+export class CalDavClient {
+    private getHeaders: (calendarUrl: string) => Record<string, string>;
+    private resources = new Map<string, CalDavResource>();
+
+    constructor(getHeaders: (calendarUrl: string) => Record<string, string> = () => ({})) {
+        this.getHeaders = getHeaders;
+    }
+
+    /**
+     * Calendars reachable from a URL: the calendar itself, or every VEVENT calendar in the
+     * user's calendar home when given a server root, principal or home URL.
+     */
+    async discoverCalendars(url: string): Promise<CalDavCalendarInfo[]> {
+        const self = await this.propfind(
+            url,
+            url,
+            "0",
+            "<d:resourcetype/><d:displayname/><a:calendar-color/><d:current-user-principal/><c:calendar-home-set/>"
+        );
+        const own = self[0];
+        if (!own) throw new Error("The server returned no properties for this URL");
+        if (this.isCalendar(own.props)) {
+            return [this.toCalendarInfo(url, own)];
+        }
+
+        let homeUrl = this.readHref(own.props, CALDAV_NS, "calendar-home-set", url);
+        if (!homeUrl) {
+            const principalUrl = this.readHref(own.props, DAV_NS, "current-user-principal", url);
+            if (principalUrl) {
+                const principal = await this.propfind(url, principalUrl, "0", "<c:calendar-home-set/>");
+                homeUrl = principal[0] ? this.readHref(principal[0].props, CALDAV_NS, "calendar-home-set", principalUrl) : null;
+            }
+        }
+
+        // Some servers (Radicale among them) accept a depth-1 listing right on the given URL
+        const listing = await this.propfind(
+            url,
+            homeUrl ?? url,
+            "1",
+            "<d:resourcetype/><d:displayname/><a:calendar-color/><c:supported-calendar-component-set/>"
+        );
+        return listing
+            .filter((entry) => this.isCalendar(entry.props) && this.supportsEvents(entry.props))
+            .map((entry) => this.toCalendarInfo(homeUrl ?? url, entry));
+    }
+
+    /**
+     * Collection tag that changes whenever anything in the calendar changes. Falls back to the
+     * sync-token; null when the server offers neither.
+     */
+    async getCtag(calendarUrl: string): Promise<string | null> {
+        const entries = await this.propfind(calendarUrl, calendarUrl, "0", "<cs:getctag/><d:sync-token/>");
+        const props = entries[0]?.props;
+        if (!props) return null;
+        return this.readText(props, CALENDARSERVER_NS, "getctag") || this.readText(props, DAV_NS, "sync-token") || null;
+    }
+
+    /**
+     * Resources with at least one instance in the range. Only ETags are queried first;
+     * calendar data is fetched with a multiget for resources that are new or changed.
+     */
+    async queryEvents(calendarUrl: string, rangeStart?: Date, rangeEnd?: Date): Promise<CalDavResource[]> {
+        const timeRange = rangeStart || rangeEnd
+            ? `<c:time-range${rangeStart ? ` start="${this.formatUtc(rangeStart)}"` : ""}${rangeEnd ? ` end="${this.formatUtc(rangeEnd)}"` : ""}/>`
+            : "";
+        const query = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query ${XML_PREFIXES}>
+  <d:prop><d:getetag/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">${timeRange}</c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+
+        const listed = (await this.request(calendarUrl, calendarUrl, "REPORT", "1", query))
+            .filter((entry) => !this.sameUrl(entry.href, calendarUrl, calendarUrl))
+            .map((entry) => ({ href: entry.href, etag: this.readText(entry.props, DAV_NS, "getetag") }));
+
+        const stale = listed.filter((entry) => {
+            const cached = this.resources.get(this.resourceKey(calendarUrl, entry.href));
+            return !cached || !entry.etag || cached.etag !== entry.etag;
+        });
+        if (stale.length > 0) {
+            await this.multiget(calendarUrl, stale.map((entry) => entry.href));
+        }
+
+        return listed
+            .map((entry) => this.resources.get(this.resourceKey(calendarUrl, entry.href)))
+            .filter((resource): resource is CalDavResource => Boolean(resource?.data));
+    }
+
+    /**
+     * The resource holding the event with this UID, from the cache or with a UID-filtered query.
+     */
+    async findResource(calendarUrl: string, uid: string): Promise<CalDavResource | null> {
+        for (const [key, resource] of this.resources) {
+            // Without an ETag the PUT could not be guarded, so re-read those
+            if (key.startsWith(`${calendarUrl}::`) && resource.uid === uid && resource.etag) return resource;
+        }
+
+        const query = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-query ${XML_PREFIXES}>
+  <d:prop><d:getetag/></d:prop>
+  <c:filter>
+    <c:comp-filter name="VCALENDAR">
+      <c:comp-filter name="VEVENT">
+        <c:prop-filter name="UID"><c:text-match collation="i;octet">${this.escapeXml(uid)}</c:text-match></c:prop-filter>
+      </c:comp-filter>
+    </c:comp-filter>
+  </c:filter>
+</c:calendar-query>`;
+        const hrefs = (await this.request(calendarUrl, calendarUrl, "REPORT", "1", query))
+            .map((entry) => entry.href)
+            .filter((href) => href && !this.sameUrl(href, calendarUrl, calendarUrl));
+        if (hrefs.length === 0) return null;
+        await this.multiget(calendarUrl, hrefs);
+        return this.resources.get(this.resourceKey(calendarUrl, hrefs[0])) ?? null;
+    }
+
+    /**
+     * Replaces a resource, guarded by If-Match on the ETag it was read with.
+     * On 412 the resource is re-read so the caller can show or retry against the server's version.
+     */
+    async putResource(calendarUrl: string, resource: CalDavResource, data: string): Promise<CalDavPutResult> {
+        const response = await requestUrl({
+            url: new URL(resource.href, calendarUrl).toString(),
+            method: "PUT",
+            contentType: "text/calendar; charset=utf-8",
+            headers: {
+                ...(resource.etag ? { "If-Match": resource.etag } : {}),
+                ...this.getHeaders(calendarUrl),
+            },
+            body: data,
+            throw: false,
+        });
+
+        const key = this.resourceKey(calendarUrl, resource.href);
+        if (response.status === 412) {
+            this.resources.delete(key);
+            await this.multiget(calendarUrl, [resource.href]);
+            return "conflict";
+        }
+        if (response.status < 200 || response.status >= 300) {
+            const hint = response.status === 401 || response.status === 403 ? " (check the calendar's authentication settings)" : "";
+            throw new Error(`PUT ${resource.href} failed: HTTP ${response.status}${hint}`);
+        }
+
+        // Servers may omit the ETag when they rewrote the data; an empty ETag makes the next REPORT refetch it
+        const etag = response.headers?.["etag"] ?? response.headers?.["ETag"] ?? "";
+        this.resources.set(key, { ...resource, etag, data });
+        return "ok";
+    }
+
+    private async multiget(calendarUrl: string, hrefs: string[]): Promise<void> {
+        const body = `<?xml version="1.0" encoding="utf-8"?>
+<c:calendar-multiget ${XML_PREFIXES}>
+  <d:prop><d:getetag/><c:calendar-data/></d:prop>
+  ${hrefs.map((href) => `<d:href>${this.escapeXml(href)}</d:href>`).join("\n  ")}
+</c:calendar-multiget>`;
+
+        const entries = await this.request(calendarUrl, calendarUrl, "REPORT", "1", body);
+        for (const entry of entries) {
+            const data = this.readText(entry.props, CALDAV_NS, "calendar-data");
+            if (!data) continue;
+            this.resources.set(this.resourceKey(calendarUrl, entry.href), {
+                href: entry.href,
+                etag: this.readText(entry.props, DAV_NS, "getetag"),
+                data,
+                uid: this.readUid(data),
+            });
+        }
+    }
+
+    private propfind(calendarUrl: string, url: string, depth: "0" | "1", props: string) {
+        const body = `<?xml version="1.0" encoding="utf-8"?>
+<d:propfind ${XML_PREFIXES}>
+  <d:prop>${props}</d:prop>
+</d:propfind>`;
+        return this.request(calendarUrl, url, "PROPFIND", depth, body);
+    }
+
+    /**
+     * Sends a WebDAV request and returns the successful propstats of each response in the multistatus.
+     * `calendarUrl` selects the credentials; `url` is what gets requested.
+     */
+    private async request(
+        calendarUrl: string,
+        url: string,
+        method: "PROPFIND" | "REPORT",
+        depth: "0" | "1",
+        body: string
+    ): Promise<Array<{ href: string; props: Element[] }>> {
+        const response: RequestUrlResponse = await requestUrl({
+            url,
+            method,
+            contentType: "application/xml; charset=utf-8",
+            headers: { Depth: depth, ...this.getHeaders(calendarUrl) },
+            body,
+            throw: false,
+        });
+
+        if (response.status !== 207) {
+            const hint = response.status === 401 || response.status === 403 ? " (check the calendar's authentication settings)" : "";
+            throw new Error(`${method} ${url} failed: HTTP ${response.status}${hint}`);
+        }
+
+        const doc = new DOMParser().parseFromString(response.text, "application/xml");
+        if (doc.getElementsByTagName("parsererror").length > 0) {
+            throw new Error(`${method} ${url} returned invalid XML`);
+        }
+
+        return Array.from(doc.getElementsByTagNameNS(DAV_NS, "response")).map((responseEl) => {
+            const href = responseEl.getElementsByTagNameNS(DAV_NS, "href")[0]?.textContent?.trim() ?? "";
+            const props: Element[] = [];
+            for (const propstat of Array.from(responseEl.getElementsByTagNameNS(DAV_NS, "propstat"))) {
+                const status = propstat.getElementsByTagNameNS(DAV_NS, "status")[0]?.textContent ?? "";
+                // 404 propstats list the properties the server does not have
+                if (status && !/\s2\d\d\s/.test(status)) continue;
+                const prop = propstat.getElementsByTagNameNS(DAV_NS, "prop")[0];
+                if (prop) props.push(...Array.from(prop.children));
+            }
+            return { href, props };
+        });
+    }
+
+    private isCalendar(props: Element[]): boolean {
+        const resourceType = props.find((prop) => prop.namespaceURI === DAV_NS && prop.localName === "resourcetype");
+        return Boolean(resourceType?.getElementsByTagNameNS(CALDAV_NS, "calendar").length);
+    }
+
+    private supportsEvents(props: Element[]): boolean {
+        const set = props.find((prop) => prop.namespaceURI === CALDAV_NS && prop.localName === "supported-calendar-component-set");
+        if (!set) return true;
+        return Array.from(set.getElementsByTagNameNS(CALDAV_NS, "comp")).some(
+            (comp) => comp.getAttribute("name")?.toUpperCase() === "VEVENT"
+        );
+    }
+
+    private toCalendarInfo(baseUrl: string, entry: { href: string; props: Element[] }): CalDavCalendarInfo {
+        const url = entry.href ? new URL(entry.href, baseUrl).toString() : baseUrl;
+        // Apple colors come as #RRGGBBAA
+        const color = this.readText(entry.props, APPLE_NS, "calendar-color").slice(0, 7);
+        return {
+            url,
+            displayName: this.readText(entry.props, DAV_NS, "displayname") || decodeURIComponent(url.replace(/\/$/, "").split("/").pop() ?? ""),
+            color: /^#[0-9a-f]{6}$/i.test(color) ? color : "",
+        };
+    }
+
+    private readText(props: Element[], namespace: string, name: string): string {
+        const prop = props.find((entry) => entry.namespaceURI === namespace && entry.localName === name);
+        return prop?.textContent?.trim() ?? "";
+    }
+
+    private readHref(props: Element[], namespace: string, name: string, baseUrl: string): string | null {
+        const prop = props.find((entry) => entry.namespaceURI === namespace && entry.localName === name);
+        const href = prop?.getElementsByTagNameNS(DAV_NS, "href")[0]?.textContent?.trim();
+        if (!href) return null;
+        try {
+            return new URL(href, baseUrl).toString();
+        } catch (e) {
+            logger.warn(`[CalDAV] Ignoring invalid href ${href}:`, e);
+            return null;
+        }
+    }
+
+    private sameUrl(href: string, other: string, baseUrl: string): boolean {
+        const normalize = (value: string) => new URL(value, baseUrl).pathname.replace(/\/$/, "");
+        return normalize(href) === normalize(other);
+    }
+
+    private readUid(data: string): string {
+        // Unfold continuation lines first; long UIDs are often folded
+        const match = data.replace(/\r?\n[ \t]/g, "").match(/^UID:(.*)$/m);
+        return match ? match[1].trim() : "";
+    }
+
+    private resourceKey(calendarUrl: string, href: string): string {
+        return `${calendarUrl}::${href}`;
+    }
+
+    private formatUtc(date: Date): string {
+        return date.toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+    }
+
+    private escapeXml(value: string): string {
+        return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+    }
+}
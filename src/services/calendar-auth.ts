@@ -0,0 +1,99 @@
+import { App } from "obsidian";
+
+export type CalendarAuthType = "none" | "basic" | "headers";
+
+export interface CalendarAuthHeader {
+    name: string;
+    value: string;
+}
+
+/**
+ * Credentials for one calendar. Kept in the vault's local storage by CalendarAuthStore, so they
+ * stay on this device instead of travelling with data.json through Sync or git.
+ */
+export interface CalendarAuth {
+    username: string;
+    password: string;
+    headers: CalendarAuthHeader[];
+}
+
+export const CALENDAR_AUTH_OPTIONS: Array<{ value: CalendarAuthType; label: string }> = [
+    { value: "none", label: "None" },
+    { value: "basic", label: "Username and password" },
+    { value: "headers", label: "Custom headers" },
+];
+
+const STORAGE_PREFIX = "tps-calendar-auth:";
+
+const emptyAuth = (): CalendarAuth => ({ username: "", password: "", headers: [] });
+
+const readHeader = (header: unknown): CalendarAuthHeader[] => {
+    if (!header || typeof header !== "object") return [];
+    const { name, value } = header as Record<string, unknown>;
+    return typeof name === "string" ? [{ name, value: String(value ?? "") }] : [];
+};
+
+export class CalendarAuthStore {
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    get(calendarId: string): CalendarAuth {
+        const stored = this.app.loadLocalStorage(STORAGE_PREFIX + calendarId);
+        if (!stored || typeof stored !== "object") return emptyAuth();
+        return {
+            username: typeof stored.username === "string" ? stored.username : "",
+            password: typeof stored.password === "string" ? stored.password : "",
+            headers: Array.isArray(stored.headers) ? stored.headers.flatMap(readHeader) : [],
+        };
+    }
+
+    set(calendarId: string, auth: CalendarAuth) {
+        this.app.saveLocalStorage(STORAGE_PREFIX + calendarId, auth);
+    }
+
+    remove(calendarId: string) {
+        this.app.saveLocalStorage(STORAGE_PREFIX + calendarId, null);
+    }
+}
+
+/**
+ * Request headers for a calendar. Missing credentials give no headers rather than an empty
+ * Authorization, so a public feed keeps working if the type was set by mistake.
+ */
+export function buildAuthHeaders(type: CalendarAuthType | undefined, auth: CalendarAuth): Record<string, string> {
+    if (type === "basic" && (auth.username || auth.password)) {
+        // btoa only takes Latin-1; encode first so non-ASCII passwords survive
+        const bytes = new TextEncoder().encode(`${auth.username}:${auth.password}`);
+        const binary = Array.from(bytes, (byte) => String.fromCharCode(byte)).join("");
+        return { Authorization: `Basic ${btoa(binary)}` };
+    }
+    if (type === "headers") {
+        return Object.fromEntries(
+            auth.headers
+                .filter((header) => header.name.trim())
+                .map((header) => [header.name.trim(), header.value.trim()])
+        );
+    }
+    return {};
+}
+
+/**
+ * Parses one `Name: value` header per line, as typed in settings.
+ */
+export function parseAuthHeaders(raw: string): CalendarAuthHeader[] {
+    return raw
+        .split("\n")
+        .map((line) => {
+            const separator = line.indexOf(":");
+            if (separator <= 0) return null;
+            return { name: line.slice(0, separator).trim(), value: line.slice(separator + 1).trim() };
+        })
+        .filter((header): header is CalendarAuthHeader => Boolean(header?.name));
+}
+
+export function formatAuthHeaders(headers: CalendarAuthHeader[]): string {
+    return headers.map((header) => `${header.name}: ${header.value}`).join("\n");
+}
@@ -0,0 +1,185 @@
+import { App, CachedMetadata, Component, TAbstractFile, TFile } from "obsidian";
+import { ExternalCalendarEvent } from "../external-calendar-service";
+
+export interface EventNoteEntry {
+    file: TFile;
+    googleEventId: string;
+    uid: string;
+    /** Feed the note was created from (`calendarUrl`); empty for notes written before it was recorded */
+    calendarUrl: string;
+}
+
+/**
+ * In-memory map of notes carrying a `googleEventId`, keyed by event id and by UID.
+ * Built with one vault scan on first use, then kept current from metadataCache/vault events,
+ * so lookups during sync and rendering never walk the vault.
+ */
+export class EventNoteIndex {
+    app: App;
+    private built = false;
+    private byPath = new Map<string, EventNoteEntry>();
+    private byId = new Map<string, Set<string>>();
+    private byUid = new Map<string, Set<string>>();
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    /**
+     * Keeps the index current for the lifetime of the given component (usually the plugin).
+     */
+    registerEvents(component: Component) {
+        component.registerEvent(
+            this.app.metadataCache.on("changed", (file: TFile, _data: string, cache: CachedMetadata) => {
+                if (this.built) this.update(file, cache);
+            })
+        );
+        component.registerEvent(
+            this.app.metadataCache.on("deleted", (file: TFile) => {
+                if (this.built) this.remove(file.path);
+            })
+        );
+        component.registerEvent(
+            this.app.vault.on("rename", (file: TAbstractFile, oldPath: string) => {
+                if (!this.built || !(file instanceof TFile)) return;
+                this.remove(oldPath);
+                this.update(file);
+            })
+        );
+    }
+
+    /**
+     * All indexed notes. Used for the orphan scan.
+     */
+    getEntries(): EventNoteEntry[] {
+        this.ensureBuilt();
+        return Array.from(this.byPath.values());
+    }
+
+    getByEventId(id: string): EventNoteEntry[] {
+        this.ensureBuilt();
+        return this.lookup(this.byId, id);
+    }
+
+    getByUid(uid: string): EventNoteEntry[] {
+        this.ensureBuilt();
+        return this.lookup(this.byUid, uid);
+    }
+
+    /**
+     * Finds the note for a remote event: exact id first, then the same UID
+     * (recurring instances within 65 minutes or on the same UTC slot, single events when unambiguous).
+     */
+    findMatch(event: ExternalCalendarEvent): EventNoteEntry | undefined {
+        // 1. Find Matching Note
+        const exact = this.getByEventId(event.id);
+        if (exact.length > 0) return exact[0];
+
+        // 2. Fuzzy Match (For Reschedules)
+        const candidates = this.getByUid(event.uid);
+        if (candidates.length === 0) return undefined;
+
+        const isRecurringInstance = event.id.includes('-') && event.id !== event.uid;
+        if (!isRecurringInstance) {
+            // Single event
+            return candidates.length === 1 ? candidates[0] : undefined;
+        }
+
+        // Extract Recurrence ID from Event ID (Remote)
+        // Format: UID-Timestamp
+        const eventRidTs = parseInt(event.id.substring(event.id.lastIndexOf('-') + 1));
+        if (isNaN(eventRidTs)) return undefined;
+
+        return candidates.find(n => {
+            const noteRidTs = parseInt(n.googleEventId.substring(n.googleEventId.lastIndexOf('-') + 1));
+            if (isNaN(noteRidTs)) return false;
+
+            // 65 min tolerance for TZ drift
+            if (Math.abs(eventRidTs - noteRidTs) < 65 * 60 * 1000) {
+                return true;
+            }
+
+            // Component match
+            const d1 = new Date(eventRidTs);
+            const d2 = new Date(noteRidTs);
+            return (
+                d1.getUTCHours() === d2.getUTCHours() &&
+                d1.getUTCMinutes() === d2.getUTCMinutes() &&
+                d1.getUTCDate() === d2.getUTCDate()
+            );
+        });
+    }
+
+    /**
+     * Drops everything; the next lookup rescans the vault.
+     */
+    invalidate() {
+        this.built = false;
+        this.byPath.clear();
+        this.byId.clear();
+        this.byUid.clear();
+    }
+
+    private ensureBuilt() {
+        if (this.built) return;
+        this.built = true;
+        for (const file of this.app.vault.getMarkdownFiles()) {
+            this.update(file);
+        }
+    }
+
+    private update(file: TFile, cache?: CachedMetadata | null) {
+        if (file.extension !== "md") return;
+        this.remove(file.path);
+
+        const fm = (cache ?? this.app.metadataCache.getFileCache(file))?.frontmatter;
+        const googleEventId = fm?.googleEventId ? String(fm.googleEventId) : null;
+        if (!googleEventId) return;
+
+        const calendarUrl = typeof fm?.calendarUrl === "string" ? fm.calendarUrl : "";
+        const entry: EventNoteEntry = { file, googleEventId, uid: this.extractUid(googleEventId), calendarUrl };
+        this.byPath.set(file.path, entry);
+        this.add(this.byId, entry.googleEventId, file.path);
+        this.add(this.byUid, entry.uid, file.path);
+    }
+
+    private remove(path: string) {
+        const entry = this.byPath.get(path);
+        if (!entry) return;
+        this.byPath.delete(path);
+        this.byId.get(entry.googleEventId)?.delete(path);
+        this.byUid.get(entry.uid)?.delete(path);
+    }
+
+    private add(map: Map<string, Set<string>>, key: string, path: string) {
+        let paths = map.get(key);
+        if (!paths) {
+            paths = new Set();
+            map.set(key, paths);
+        }
+        paths.add(path);
+    }
+
+    private lookup(map: Map<string, Set<string>>, key: string): EventNoteEntry[] {
+        const paths = map.get(key);
+        if (!paths) return [];
+        const entries: EventNoteEntry[] = [];
+        for (const path of paths) {
+            const entry = this.byPath.get(path);
+            if (entry) entries.push(entry);
+        }
+        return entries;
+    }
+
+    /**
+     * Format 1 (Standard): UID
+     * Format 2 (Recurring): UID-Timestamp
+     */
+    private extractUid(googleEventId: string): string {
+        const lastDash = googleEventId.lastIndexOf('-');
+        if (lastDash > 0 && /^\d+$/.test(googleEventId.substring(lastDash + 1))) {
+            return googleEventId.substring(0, lastDash);
+        }
+        return googleEventId;
+    }
+}
@@ -0,0 +1,88 @@
+import { DataAdapter, normalizePath } from "obsidian";
+import * as logger from "../logger";
+
+/**
+ * Raw feed body with the validators needed for a conditional refetch.
+ */
+export interface StoredFeed {
+    url: string;
+    etag: string;
+    lastModified: string;
+    body: string;
+    fetchedAt: number;
+}
+
+/**
+ * Feed bodies on disk in the plugin folder, one JSON file per URL. Survives restarts so the
+ * calendar can render before the network answers, and lets refetches send If-None-Match.
+ */
+export class FeedCache {
+    private adapter: DataAdapter;
+    private dir: string;
+    private memory = new Map<string, StoredFeed | null>();
+
+    constructor(adapter: DataAdapter, dir: string) {
+        this.adapter = adapter;
+        this.dir = normalizePath(dir);
+    }
+
+    async get(url: string): Promise<StoredFeed | null> {
+        if (this.memory.has(url)) return this.memory.get(url) ?? null;
+
+        let feed: StoredFeed | null = null;
+        try {
+            const path = this.pathFor(url);
+            if (await this.adapter.exists(path)) {
+                const parsed = JSON.parse(await this.adapter.read(path));
+                // Hash collisions are unlikely, but a wrong feed would be worse than none
+                if (parsed?.url === url && typeof parsed.body === "string") {
+                    feed = {
+                        url,
+                        etag: typeof parsed.etag === "string" ? parsed.etag : "",
+                        lastModified: typeof parsed.lastModified === "string" ? parsed.lastModified : "",
+                        body: parsed.body,
+                        fetchedAt: Number(parsed.fetchedAt) || 0,
+                    };
+                }
+            }
+        } catch (e) {
+            logger.warn(`[FeedCache] Ignoring unreadable cache entry for ${url}:`, e);
+        }
+        this.memory.set(url, feed);
+        return feed;
+    }
+
+    async set(feed: StoredFeed): Promise<void> {
+        this.memory.set(feed.url, feed);
+        try {
+            if (!(await this.adapter.exists(this.dir))) {
+                await this.adapter.mkdir(this.dir);
+            }
+            await this.adapter.write(this.pathFor(feed.url), JSON.stringify(feed));
+        } catch (e) {
+            logger.error(`[FeedCache] Failed to store feed ${feed.url}:`, e);
+        }
+    }
+
+    async remove(url: string): Promise<void> {
+        this.memory.delete(url);
+        try {
+            const path = this.pathFor(url);
+            if (await this.adapter.exists(path)) {
+                await this.adapter.remove(path);
+            }
+        } catch (e) {
+            logger.error(`[FeedCache] Failed to remove cached feed ${url}:`, e);
+        }
+    }
+
+    private pathFor(url: string): string {
+        // FNV-1a; file names only need to be stable and filesystem-safe
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < url.length; i++) {
+            hash ^= url.charCodeAt(i);
+            hash = Math.imul(hash, 0x01000193);
+        }
+        return normalizePath(`${this.dir}/${(hash >>> 0).toString(16).padStart(8, "0")}.json`);
+    }
+}
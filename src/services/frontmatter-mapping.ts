@@ -0,0 +1,117 @@
+import { ExternalCalendarEvent, ExternalCalendarPerson } from "../external-calendar-service";
+
+export type MappedEventField = "location" | "organizer" | "attendees" | "url" | "description";
+export type FrontmatterValueType = "string" | "list" | "link";
+
+/**
+ * One row of the frontmatter mapping table: which event field goes to which property, and in what shape.
+ */
+export interface FrontmatterMapping {
+    field: MappedEventField;
+    key: string;
+    type: FrontmatterValueType;
+}
+
+export const MAPPED_EVENT_FIELDS: Array<{ value: MappedEventField; label: string }> = [
+    { value: "location", label: "Location" },
+    { value: "organizer", label: "Organizer" },
+    { value: "attendees", label: "Attendees" },
+    { value: "url", label: "URL" },
+    { value: "description", label: "Description" },
+];
+
+export const FRONTMATTER_VALUE_TYPES: Array<{ value: FrontmatterValueType; label: string }> = [
+    { value: "string", label: "Text" },
+    { value: "list", label: "List" },
+    { value: "link", label: "Link" },
+];
+
+/**
+ * Starting mappings for new installs. Written to every new note; later syncs only overwrite location
+ * and attendees for calendars that own them (see getSyncedMappedFields).
+ */
+export const DEFAULT_FRONTMATTER_MAPPINGS: FrontmatterMapping[] = [
+    { field: "location", key: "location", type: "string" },
+    { field: "attendees", key: "attendees", type: "list" },
+];
+
+/**
+ * Frontmatter for the mapped event fields. Pass `fields` to limit the result to those event fields.
+ * With `linkPerson`, link-typed attendees/organizer become links to person notes instead of `[[label]]`.
+ */
+export function buildMappedFrontmatter(
+    event: ExternalCalendarEvent,
+    mappings: FrontmatterMapping[],
+    fields?: MappedEventField[],
+    linkPerson?: (person: ExternalCalendarPerson) => string
+): Record<string, unknown> {
+    const frontmatter: Record<string, unknown> = {};
+    for (const mapping of mappings) {
+        const key = mapping.key?.trim();
+        if (!key || (fields && !fields.includes(mapping.field))) continue;
+        if (linkPerson && mapping.type === "link" && (mapping.field === "attendees" || mapping.field === "organizer")) {
+            const links = readPeople(event, mapping.field).map(linkPerson).filter(Boolean);
+            frontmatter[key] = mapping.field === "attendees" ? links : links[0] ?? "";
+            continue;
+        }
+        frontmatter[key] = convertValue(readField(event, mapping.field), mapping.type);
+    }
+    return frontmatter;
+}
+
+/**
+ * People that link-typed mappings would write for this event, for creating person notes ahead of linking.
+ */
+export function collectLinkedPeople(event: ExternalCalendarEvent, mappings: FrontmatterMapping[]): ExternalCalendarPerson[] {
+    const people: ExternalCalendarPerson[] = [];
+    for (const field of ["organizer", "attendees"] as const) {
+        if (mappings.some((mapping) => mapping.field === field && mapping.type === "link" && mapping.key?.trim())) {
+            people.push(...readPeople(event, field));
+        }
+    }
+    return people;
+}
+
+function readPeople(event: ExternalCalendarEvent, field: "attendees" | "organizer"): ExternalCalendarPerson[] {
+    if (field === "organizer") {
+        return event.organizer || event.organizerEmail
+            ? [{
+                // `organizer` falls back to the address when there is no CN
+                name: event.organizer && event.organizer !== event.organizerEmail ? event.organizer : "",
+                email: event.organizerEmail ?? "",
+            }]
+            : [];
+    }
+    // Rooms and equipment booked through the invite are not people
+    return event.attendeeDetails?.filter((attendee) => !attendee.isResource)
+        ?? (event.attendees ?? []).map((name) => ({ name, email: "" }));
+}
+
+function readField(event: ExternalCalendarEvent, field: MappedEventField): string | string[] {
+    switch (field) {
+        case "attendees":
+            return event.attendees ?? [];
+        case "organizer":
+            return event.organizer ?? "";
+        case "url":
+            return event.url ?? "";
+        case "description":
+            return event.description ?? "";
+        default:
+            return event.location ?? "";
+    }
+}
+
+function convertValue(value: string | string[], type: FrontmatterValueType): string | string[] {
+    const items = (Array.isArray(value) ? value : [value]).map((item) => item.trim()).filter(Boolean);
+    switch (type) {
+        case "list":
+            return items;
+        case "link": {
+            const links = items.map((item) => `[[${item.replace(/[[\]|#^]/g, "")}]]`);
+            return Array.isArray(value) ? links : links[0] ?? "";
+        }
+        default:
+            return items.join(", ");
+    }
+}
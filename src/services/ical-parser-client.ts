@@ -0,0 +1,202 @@
+import parserWorkerSource from "worker:./ical-parser.worker.ts";
+import type { ExternalCalendarEvent } from "../external-calendar-service";
+import * as logger from "../logger";
+import { ICalParser, ICalParseRequest } from "./ical-parser";
+
+export type ICalParserWorkerRequest =
+    | (Omit<ICalParseRequest, "text"> & { type: "parse"; id: number; text: string | null })
+    | { type: "clear" };
+
+export interface ICalParserWorkerResponse {
+    id: number;
+    events?: ExternalCalendarEvent[];
+    error?: string;
+    /** Sent for a request without text when the worker no longer has that feed */
+    missingFeed?: boolean;
+}
+
+interface ParseJob {
+    id: number;
+    request: ICalParseRequest;
+    resolve: (events: ExternalCalendarEvent[]) => void;
+    reject: (error: Error) => void;
+    signal?: AbortSignal;
+    onAbort?: () => void;
+}
+
+const cancelledError = () => {
+    const error = new Error("Parsing was cancelled");
+    error.name = "AbortError";
+    return error;
+};
+
+/**
+ * Runs ICalParser in a Web Worker so large feeds do not freeze the view. Jobs go to the worker
+ * one at a time; cancelled jobs that have not been sent are dropped. Where workers cannot be
+ * created, or the worker fails to load, parsing falls back to this thread.
+ */
+export class ICalParserClient {
+    private worker: Worker | null = null;
+    private workerUrl: string | null = null;
+    private workerUnavailable = false;
+    private fallback: ICalParser | null = null;
+    private queue: ParseJob[] = [];
+    private active: ParseJob | null = null;
+    private nextId = 1;
+    /** Feed text the worker already holds, so unchanged feeds are not copied to it again */
+    private sentFeeds = new Map<string, string>();
+
+    parse(request: ICalParseRequest, signal?: AbortSignal): Promise<ExternalCalendarEvent[]> {
+        if (signal?.aborted) return Promise.reject(cancelledError());
+
+        const worker = this.getWorker();
+        if (!worker) {
+            try {
+                return Promise.resolve(this.getFallback().parse(request));
+            } catch (error) {
+                return Promise.reject(error);
+            }
+        }
+
+        return new Promise((resolve, reject) => {
+            const job: ParseJob = { id: this.nextId++, request, resolve, reject, signal };
+            if (signal) {
+                job.onAbort = () => this.cancel(job);
+                signal.addEventListener("abort", job.onAbort);
+            }
+            this.queue.push(job);
+            this.sendNext();
+        });
+    }
+
+    clear(): void {
+        this.sentFeeds.clear();
+        const message: ICalParserWorkerRequest = { type: "clear" };
+        this.worker?.postMessage(message);
+        this.fallback?.clear();
+    }
+
+    dispose(): void {
+        for (const job of [...(this.active ? [this.active] : []), ...this.queue]) {
+            this.settle(job);
+            job.reject(cancelledError());
+        }
+        this.active = null;
+        this.queue = [];
+        this.stopWorker();
+    }
+
+    private getWorker(): Worker | null {
+        if (this.worker || this.workerUnavailable) return this.worker;
+        if (typeof Worker === "undefined" || typeof Blob === "undefined") {
+            this.workerUnavailable = true;
+            return null;
+        }
+
+        try {
+            // The worker is inlined into main.js, so it is started from a blob rather than a file
+            this.workerUrl = URL.createObjectURL(new Blob([parserWorkerSource], { type: "text/javascript" }));
+            this.worker = new Worker(this.workerUrl);
+            this.worker.addEventListener("message", (message: MessageEvent<ICalParserWorkerResponse>) =>
+                this.handleResponse(message.data)
+            );
+            this.worker.addEventListener("error", (event) => {
+                event.preventDefault();
+                this.handleWorkerFailure(event.message);
+            });
+        } catch (error) {
+            logger.warn("[ICalParserClient] Could not start parser worker, parsing on the main thread:", error);
+            this.stopWorker();
+            this.workerUnavailable = true;
+        }
+        return this.worker;
+    }
+
+    private getFallback(): ICalParser {
+        if (!this.fallback) this.fallback = new ICalParser();
+        return this.fallback;
+    }
+
+    private sendNext(): void {
+        if (this.active || !this.worker) return;
+        const job = this.queue.shift();
+        if (!job) return;
+
+        this.active = job;
+        const { text, ...rest } = job.request;
+        const known = rest.feedKey !== undefined && this.sentFeeds.get(rest.feedKey) === text;
+        const message: ICalParserWorkerRequest = { ...rest, type: "parse", id: job.id, text: known ? null : text };
+        this.worker.postMessage(message);
+    }
+
+    private handleResponse(response: ICalParserWorkerResponse): void {
+        const job = this.active;
+        if (!job || job.id !== response.id) return;
+        this.active = null;
+        const { feedKey, text } = job.request;
+
+        if (response.missingFeed && feedKey !== undefined && this.sentFeeds.get(feedKey) === text) {
+            // Send it again with the text, unless nobody is waiting for it any more
+            this.sentFeeds.delete(feedKey);
+            if (!job.signal?.aborted) this.queue.unshift(job);
+        } else if (response.events) {
+            if (feedKey !== undefined) this.sentFeeds.set(feedKey, text);
+            this.settle(job);
+            job.resolve(response.events);
+        } else {
+            if (feedKey !== undefined) this.sentFeeds.delete(feedKey);
+            this.settle(job);
+            job.reject(new Error(response.error ?? "Parser worker returned no events"));
+        }
+        this.sendNext();
+    }
+
+    /**
+     * Rejects a cancelled job right away. A job already in the worker still finishes there,
+     * which keeps the worker's parsed copy of the feed, but its events are discarded.
+     */
+    private cancel(job: ParseJob): void {
+        this.queue = this.queue.filter((queued) => queued !== job);
+        this.settle(job);
+        job.reject(cancelledError());
+    }
+
+    private settle(job: ParseJob): void {
+        if (job.signal && job.onAbort) {
+            job.signal.removeEventListener("abort", job.onAbort);
+        }
+    }
+
+    /**
+     * The worker script failed to load or crashed. Finish the pending jobs here and stay on
+     * this thread from now on.
+     */
+    private handleWorkerFailure(message: string): void {
+        logger.warn("[ICalParserClient] Parser worker failed, parsing on the main thread:", message);
+        const jobs = [...(this.active ? [this.active] : []), ...this.queue];
+        this.active = null;
+        this.queue = [];
+        this.stopWorker();
+        this.workerUnavailable = true;
+
+        for (const job of jobs) {
+            this.settle(job);
+            if (job.signal?.aborted) continue;
+            try {
+                job.resolve(this.getFallback().parse(job.request));
+            } catch (error) {
+                job.reject(error instanceof Error ? error : new Error(String(error)));
+            }
+        }
+    }
+
+    private stopWorker(): void {
+        this.worker?.terminate();
+        this.worker = null;
+        this.sentFeeds.clear();
+        if (this.workerUrl) {
+            URL.revokeObjectURL(this.workerUrl);
+            this.workerUrl = null;
+        }
+    }
+}
@@ -0,0 +1,662 @@
+import ICAL from "ical.js";
+import type {
+    AttendeeRole,
+    ExternalCalendarAttendee,
+    ExternalCalendarEvent,
+    ExternalCalendarPerson,
+    ExternalEventStatus,
+    ExternalEventTransparency,
+    ParticipationStatus,
+} from "../external-calendar-service";
+import * as logger from "../logger";
+import { resolveTimezoneId } from "./windows-zones";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+/** Most occurrences expanded inside one range */
+const MAX_ITERATIONS = 2000;
+/** Most occurrences skipped to reach a range; paid once per series, later ranges resume from checkpoints */
+const MAX_SKIP_ITERATIONS = 100000;
+/** Occurrences between stored iterator checkpoints of a series */
+const CHECKPOINT_INTERVAL = 50;
+
+/** Per-VEVENT values shared by all of its occurrences */
+interface ParsedEventProps {
+    uid: string;
+    summary: string;
+    description: string;
+    location: string;
+    organizer: string;
+    organizerEmail: string;
+    attendees: string[];
+    attendeeDetails: ExternalCalendarAttendee[];
+    url: string;
+    status: ExternalEventStatus;
+    transparency: ExternalEventTransparency;
+    isCancelled?: boolean;
+    isRecurring?: boolean;
+}
+
+interface SeriesCheckpoint {
+    /** Occurrence the iterator had just returned */
+    time: ICAL.Time;
+    /** 1-based index of that occurrence within the series */
+    index: number;
+    state: ReturnType<ICAL.RecurExpansion["toJSON"]>;
+}
+
+/** One VEVENT as parsed once per feed version. */
+interface ParsedFeedEntry {
+    event: ICAL.Event;
+    explicitTzid: string | null;
+    isSeries: boolean;
+    /** RECURRENCE-IDs of moved occurrences, for series only */
+    exceptionTimes: ICAL.Time[];
+    checkpoints: SeriesCheckpoint[];
+    props: ParsedEventProps;
+}
+
+
+/**
+ * Whether an event overlaps the range: it ends after the range starts and starts before the
+ * range ends. Zero-length events count when they sit on the range start.
+ */
+export function overlapsRange(start: Date, end: Date, rangeStart?: Date, rangeEnd?: Date): boolean {
+    if (rangeEnd && start.getTime() >= rangeEnd.getTime()) return false;
+    if (rangeStart && start.getTime() < rangeStart.getTime() && end.getTime() <= rangeStart.getTime()) return false;
+    return true;
+}
+
+/**
+ * One parse of iCal text for a range. Everything in here survives structured cloning,
+ * so the same request goes to the parser worker or to ICalParser directly.
+ */
+export interface ICalParseRequest {
+    text: string;
+    /** Keeps the parsed components for this key until its text changes */
+    feedKey?: string;
+    rangeStart?: Date;
+    rangeEnd?: Date;
+    includeCancelled: boolean;
+    /** Lower-cased addresses of the user, used to fill `myPartstat` */
+    identityEmails: string[];
+    /** IANA or Windows zone for times without a usable TZID; local time when empty */
+    assumeTimezone?: string;
+}
+
+const warnedZones = new Set<string>();
+
+/**
+ * Turns iCal text into calendar events for a range. Has no Obsidian dependencies so it can
+ * run in the parser worker as well as on the main thread.
+ */
+export class ICalParser {
+    /** Parsed components per feed, reused until the feed text changes */
+    private parsedFeeds: Map<string, { text: string; entries: ParsedFeedEntry[] }> = new Map();
+    private identityEmails: string[] = [];
+    private assumeTimezone: string | null = null;
+
+    /**
+     * Events in the range from iCal text. With a `feedKey`, the parsed components are kept until
+     * the text for that key changes, so moving to another range only expands occurrences.
+     */
+    parse(request: ICalParseRequest): ExternalCalendarEvent[] {
+        const { text, feedKey, rangeStart, rangeEnd, includeCancelled } = request;
+        try {
+            if (!text || typeof text !== "string") {
+                return [];
+            }
+
+            const trimmed = text.trim();
+            if (!trimmed.toUpperCase().includes("BEGIN:VCALENDAR")) {
+                return [];
+            }
+
+            this.identityEmails = request.identityEmails;
+            this.assumeTimezone = request.assumeTimezone ? resolveTimezoneId(request.assumeTimezone) : null;
+            const feed = this.getParsedFeed(text, feedKey);
+            const events: ExternalCalendarEvent[] = [];
+            for (const entry of feed) {
+                if (entry.props.isCancelled && !includeCancelled) {
+                    continue;
+                }
+                try {
+                    if (entry.isSeries) {
+                        this.expandSeries(entry, events, rangeStart, rangeEnd);
+                    } else {
+                        this.pushSingle(entry, events, rangeStart, rangeEnd);
+                    }
+                } catch (innerError) {
+                    logger.warn("[ICalParser] Error expanding single event:", innerError);
+                }
+            }
+            return events;
+        } catch (error) {
+            // Surface parse failures so fetchEventsWithStatus reports the source as failed
+            logger.error("[ICalParser] Error parsing iCal data:", error);
+            throw error;
+        }
+    }
+
+    /** Text of a feed parsed earlier under this key, if it is still kept */
+    getFeedText(feedKey: string): string | null {
+        return this.parsedFeeds.get(feedKey)?.text ?? null;
+    }
+
+    clear(): void {
+        this.parsedFeeds.clear();
+    }
+
+    private getParsedFeed(icalData: string, feedKey?: string): ParsedFeedEntry[] {
+        if (feedKey) {
+            const cached = this.parsedFeeds.get(feedKey);
+            if (cached && cached.text === icalData) {
+                return cached.entries;
+            }
+        }
+        const entries = this.parseFeed(icalData);
+        if (feedKey) {
+            this.parsedFeeds.set(feedKey, { text: icalData, entries });
+        }
+        return entries;
+    }
+
+    /**
+     * Parses every VEVENT once: properties, timezone handling and the exception index.
+     * Nothing here depends on the requested range.
+     */
+    private parseFeed(icalData: string): ParsedFeedEntry[] {
+        const jcalData = ICAL.parse(icalData);
+        const comp = new ICAL.Component(jcalData);
+        this.registerTimezones(comp);
+        const vevents = comp.getAllSubcomponents("vevent");
+
+        // Pass 1: Parse all events and index exceptions
+        // We map UID -> Array of Recurrence-ID Times (ICAL.Time objects)
+        // We use the native ICAL.Time object for comparison to handle timezones correctly
+        const exceptions = new Map<string, ICAL.Time[]>();
+        const parsedEvents: { event: ICAL.Event; vevent: ICAL.Component }[] = [];
+
+        for (const vevent of vevents) {
+            try {
+                const event = new ICAL.Event(vevent);
+                parsedEvents.push({ event, vevent });
+
+                if (event.recurrenceId) {
+                    const uid = event.uid;
+                    if (!exceptions.has(uid)) {
+                        exceptions.set(uid, []);
+                    }
+                    exceptions.get(uid)?.push(event.recurrenceId);
+                }
+            } catch (e) {
+                logger.warn("[ICalParser] Error pre-parsing event:", e);
+            }
+        }
+
+        // Pass 2: Extract properties
+        const entries: ParsedFeedEntry[] = [];
+        for (const { event, vevent } of parsedEvents) {
+            try {
+                // Cancelled events are kept here and filtered per request (handle both spellings)
+                const status = this.extractString(vevent, "status", "").toUpperCase();
+                const isCancelled = status === "CANCELLED" || status === "CANCELED";
+
+                const eventStatus: ExternalEventStatus = isCancelled ? "cancelled" : status === "TENTATIVE" ? "tentative" : "confirmed";
+                const transparency: ExternalEventTransparency =
+                    this.extractString(vevent, "transp", "").toUpperCase() === "TRANSPARENT" ? "transparent" : "opaque";
+
+                const summary = this.extractString(vevent, "summary", "Untitled Event");
+                const description = this.extractString(vevent, "description", "");
+                const location = this.extractString(vevent, "location", "");
+                const uid = this.extractString(vevent, "uid", `${event.startDate.toUnixTime()}`);
+                const url = this.extractString(vevent, "url", "");
+
+                const organizerDetails = this.extractOrganizer(vevent);
+                const organizer = organizerDetails ? this.formatPerson(organizerDetails) : "";
+                const organizerEmail = organizerDetails?.email ?? "";
+                const attendeeDetails = this.extractAttendees(vevent);
+                const attendees = attendeeDetails.map((person) => this.formatPerson(person));
+
+                // A TZID that matched a VTIMEZONE gives ical.js a real zone; only TZIDs it could
+                // not resolve stay floating and are converted by name in normalizeTime
+                const dtstartProp = vevent.getFirstProperty("dtstart");
+                let explicitTzid: string | null = null;
+                if (dtstartProp) {
+                    const tzidParam = dtstartProp.getParameter("tzid");
+                    if (typeof tzidParam === "string" && this.isFloating(event.startDate)) {
+                        explicitTzid = tzidParam.replace(/^["']|["']$/g, "");
+                    }
+                }
+
+                const isSeries = event.isRecurring();
+                entries.push({
+                    event,
+                    explicitTzid,
+                    isSeries,
+                    exceptionTimes: isSeries ? exceptions.get(event.uid) ?? [] : [],
+                    checkpoints: [],
+                    props: {
+                        uid,
+                        summary,
+                        description,
+                        location,
+                        organizer,
+                        organizerEmail,
+                        attendees,
+                        attendeeDetails,
+                        url,
+                        status: eventStatus,
+                        transparency,
+                        isCancelled,
+                        isRecurring: isSeries || !!event.recurrenceId,
+                    },
+                });
+            } catch (innerError) {
+                logger.warn("[ICalParser] Error parsing single event:", innerError);
+                continue;
+            }
+        }
+
+        return entries;
+    }
+
+    /**
+     * Pushes the occurrences of a series that fall in the range. The walk resumes from the last
+     * checkpoint well before the range instead of DTSTART, and records new checkpoints as it goes,
+     * so a range years after DTSTART costs about as much as the first one.
+     */
+    private expandSeries(entry: ParsedFeedEntry, events: ExternalCalendarEvent[], rangeStart?: Date, rangeEnd?: Date): void {
+        const { event, explicitTzid } = entry;
+        // A day of margin on both sides: normalizeTime can move an occurrence across the range bounds
+        const rangeEndTime = rangeEnd ? ICAL.Time.fromJSDate(new Date(rangeEnd.getTime() + DAY_MS)) : null;
+        // Occurrences that started before the range can still run into it
+        const durationMs = Math.max(0, (event.duration?.toSeconds() ?? 0) * 1000);
+        const resumeBefore = rangeStart
+            ? ICAL.Time.fromJSDate(new Date(rangeStart.getTime() - durationMs - DAY_MS))
+            : null;
+
+        let checkpoint: SeriesCheckpoint | undefined;
+        if (resumeBefore) {
+            for (const candidate of entry.checkpoints) {
+                if (candidate.time.compare(resumeBefore) >= 0) break;
+                checkpoint = candidate;
+            }
+        }
+
+        const iterator = checkpoint
+            ? new ICAL.RecurExpansion(checkpoint.state)
+            : event.iterator(event.startDate);
+        let index = checkpoint?.index ?? 0;
+        let next: ICAL.Time | null = null;
+        let iterationCount = 0;
+        let skipCount = 0;
+
+        while ((next = iterator.next())) {
+            index++;
+            const skipping = resumeBefore !== null && next.compare(resumeBefore) < 0;
+            // Bounds the work per range, not the length of the series
+            if (skipping ? ++skipCount > MAX_SKIP_ITERATIONS : ++iterationCount > MAX_ITERATIONS) break;
+
+            const lastCheckpoint = entry.checkpoints[entry.checkpoints.length - 1];
+            if (index - (lastCheckpoint?.index ?? 0) >= CHECKPOINT_INTERVAL) {
+                entry.checkpoints.push({ time: next.clone(), index, state: iterator.toJSON() });
+            }
+
+            if (rangeEndTime && next.compare(rangeEndTime) > 0) break;
+            if (skipping) continue;
+
+            // Check if this occurrence is overridden by an exception
+            if (entry.exceptionTimes.length > 0 && this.isException(entry.exceptionTimes, next)) {
+                continue; // Skip this occurrence
+            }
+
+            const occurrence = event.getOccurrenceDetails(next);
+
+            const startDate = this.normalizeTime(occurrence.startDate, explicitTzid);
+            const endDate = this.normalizeTime(occurrence.endDate, explicitTzid);
+
+            this.pushEvent(
+                events,
+                startDate,
+                endDate,
+                occurrence.startDate.isDate,
+                { ...entry.props, isRecurring: true },
+                rangeStart,
+                rangeEnd
+            );
+        }
+    }
+
+    private isException(exceptionTimes: ICAL.Time[], next: ICAL.Time): boolean {
+        // Enhanced Exception Matching
+        // We compare based on Time Value (seconds since epoch) to handle timezone differences correctly.
+        // However, ical.js compare() should do this.
+        // We add a fallback comparison for "Floating" vs "UTC" scenarios which might drift.
+        return exceptionTimes.some(exTime => {
+            // 1. Standard strict comparison (handles TZ conversion)
+            if (exTime.compare(next) === 0) return true;
+
+            // 2. Fallback: Compare Unix Time explicitly
+            const t1 = exTime.toUnixTime();
+            const t2 = next.toUnixTime();
+            if (Math.abs(t1 - t2) < 60) return true; // Match within 1 minute tolerance
+
+            // 3. Fallback: Component-wise comparison (Ignore Timezone)
+            // If the RECURRENCE-ID implies "1pm" and the occurrence is "1pm", we treat them as matched.
+            // This fixes issues where one is Floating and the other is Zoned.
+            return (
+                exTime.year === next.year &&
+                exTime.month === next.month &&
+                exTime.day === next.day &&
+                exTime.hour === next.hour &&
+                exTime.minute === next.minute
+            );
+        });
+    }
+
+    private pushSingle(entry: ParsedFeedEntry, events: ExternalCalendarEvent[], rangeStart?: Date, rangeEnd?: Date): void {
+        const { event, explicitTzid } = entry;
+        const end = event.endDate ?? event.startDate.clone();
+        if (!event.endDate && event.duration) {
+            end.addDuration(event.duration);
+        }
+
+        const startDate = this.normalizeTime(event.startDate, explicitTzid);
+        const endDate = this.normalizeTime(end, explicitTzid);
+
+        // STABLE ID GENERATION
+        // For single events, use UID directly so hiding persists across rescheduling.
+        // For exceptions, use UID + RecurrenceID (Original Time) which is also stable.
+        let stableId: string | undefined;
+        if (event.recurrenceId) {
+                const rid = event.recurrenceId.toJSDate().getTime();
+                stableId = `${entry.props.uid}-${rid}`;
+        } else {
+                stableId = entry.props.uid;
+        }
+
+        this.pushEvent(
+            events,
+            startDate,
+            endDate,
+            event.startDate.isDate,
+            { ...entry.props, id: stableId },
+            rangeStart,
+            rangeEnd
+        );
+    }
+
+    /**
+     * Registers the feed's VTIMEZONE definitions with ical.js. Times in the feed resolve them on
+     * their own; the registry also covers TZIDs whose definition sits in another resource of the
+     * same calendar, and series checkpoints, which restore their times by zone name.
+     */
+    private registerTimezones(calendar: ICAL.Component): void {
+        for (const vtimezone of calendar.getAllSubcomponents("vtimezone")) {
+            try {
+                ICAL.TimezoneService.register(vtimezone);
+            } catch (e) {
+                logger.warn("[ICalParser] Ignoring invalid VTIMEZONE:", e);
+            }
+        }
+    }
+
+    private isFloating(icalTime: ICAL.Time): boolean {
+        return !icalTime.zone || icalTime.zone.toString() === "floating";
+    }
+
+    /**
+     * Converts an ICAL.Time object to a native JavaScript Date object. Zones come from, in order:
+     * the feed's VTIMEZONE (or UTC), the TZID as an IANA or Windows name, the calendar's
+     * assumed timezone, and finally local time.
+     */
+    private normalizeTime(icalTime: ICAL.Time, explicitTzid: string | null): Date {
+        // 1. All-day events are dates without times. ical.js handles these well as local dates.
+        if (icalTime.isDate) {
+            return icalTime.toJSDate();
+        }
+
+        // 2. UTC, or a zone ical.js resolved from a VTIMEZONE
+        if (!this.isFloating(icalTime)) {
+            return icalTime.toJSDate();
+        }
+
+        // 3. Resolve the timezone ID; feeds without a usable TZID use the calendar's assumed zone
+        const resolvedTzid = explicitTzid ? resolveTimezoneId(explicitTzid) : null;
+        if (explicitTzid && !resolvedTzid && !warnedZones.has(explicitTzid)) {
+            logger.warn("[ICalParser] Unknown timezone, using the calendar's assumed timezone or local time:", explicitTzid);
+            warnedZones.add(explicitTzid);
+        }
+        const targetTzid = resolvedTzid ?? this.assumeTimezone;
+
+        // 4. Offset calculation using the Intl API, which works the same in the worker
+        // and on the main thread
+        if (targetTzid) {
+            try {
+                // Create a date string in the target timezone
+                // We interpret the icalTime components as being in the target timezone
+                const pad = (n: number) => String(n).padStart(2, "0");
+                const dateStr = `${icalTime.year}-${pad(icalTime.month)}-${pad(icalTime.day)}T${pad(icalTime.hour)}:${pad(icalTime.minute)}:${pad(icalTime.second)}`;
+
+                // Try to get the offset for this datetime in the target timezone
+                // This uses the Intl API which should be available in all modern browsers
+                const resolvedDate = this.parseDateInTimezone(dateStr, targetTzid);
+                if (resolvedDate) {
+                    return resolvedDate;
+                }
+            } catch (error) {
+                logger.warn("[ICalParser] Manual timezone offset calculation failed", {
+                    targetTzid,
+                    error: error instanceof Error ? error.message : String(error)
+                });
+            }
+        }
+
+        // 5. Final fallback: Use ical.js's conversion, which reads floating times as local time
+        return icalTime.toJSDate();
+    }
+
+    /**
+     * Parse a date string as if it were in a specific timezone.
+     * Uses the Intl API to determine the offset.
+     */
+    private parseDateInTimezone(dateStr: string, tzid: string): Date | null {
+        try {
+            // Parse the components from the date string
+            const match = dateStr.match(/^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2}):(\d{2})$/);
+            if (!match) return null;
+
+            const [, yearStr, monthStr, dayStr, hourStr, minuteStr, secondStr] = match;
+            const year = parseInt(yearStr);
+            const month = parseInt(monthStr);
+            const day = parseInt(dayStr);
+            const hour = parseInt(hourStr);
+            const minute = parseInt(minuteStr);
+            const second = parseInt(secondStr);
+
+            // We want to interpret these components as being in the target timezone
+            // and convert to a UTC Date object.
+
+            // Strategy: Create a date assuming it's in the target TZ, get its UTC string,
+            // parse that to get the real UTC date
+
+            // Best approach: Manually calculate using getTimezoneOffset equivalent for any TZ
+            try {
+                // Create a Date in UTC with our components
+                const utcDate = new Date(Date.UTC(year, month - 1, day, hour, minute, second));
+
+                // Format it in the target timezone to see what time it shows
+                const formatter = new Intl.DateTimeFormat("en-US", {
+                    timeZone: tzid,
+                    year: "numeric",
+                    month: "2-digit",
+                    day: "2-digit",
+                    hour: "2-digit",
+                    minute: "2-digit",
+                    second: "2-digit",
+                    hour12: false
+                });
+
+                const parts = formatter.formatToParts(utcDate);
+                const formatted: Record<string, string> = {};
+                for (const part of parts) {
+                    if (part.type !== "literal") {
+                        formatted[part.type] = part.value;
+                    }
+                }
+
+                // Now we know: when we have a UTC date with components (year, month, day, hour, minute, second),
+                // it displays as (formatted.year, formatted.month, ...) in the target timezone.
+
+                // We want the OPPOSITE: when the target  TZ shows (year, month, day, hour, minute, second),
+                // what is the UTC time?
+
+                // The offset is: (displayed_time) - (utc_time)
+                // So: UTC_time = displayed_time - offset
+                // And: offset = displayed_time - UTC_time
+
+                const displayedMs = Date.UTC(
+                    parseInt(formatted.year),
+                    parseInt(formatted.month) - 1,
+                    parseInt(formatted.day),
+                    parseInt(formatted.hour),
+                    parseInt(formatted.minute),
+                    parseInt(formatted.second)
+                );
+
+                const utcMs = utcDate.getTime();
+                const offset = displayedMs - utcMs;
+
+                // Now, our desired components (year, month, day, hour, minute, second) should display in the target TZ
+                // So the UTC time should be:
+                const desiredMs = Date.UTC(year, month - 1, day, hour, minute, second);
+                const correctUTC = desiredMs - offset;
+
+                return new Date(correctUTC);
+
+            } catch (e) {
+                // Intl API might not support the timezone
+                if (!warnedZones.has(tzid)) {
+                    logger.warn("[ICalParser] Intl API does not support timezone:", tzid);
+                    warnedZones.add(tzid);
+                }
+                return null;
+            }
+
+        } catch (error) {
+            return null;
+        }
+    }
+
+    private pushEvent(
+        events: ExternalCalendarEvent[],
+        startDate: Date,
+        endDate: Date,
+        isAllDay: boolean,
+        props: ParsedEventProps & { id?: string },
+        rangeStart?: Date,
+        rangeEnd?: Date
+    ): void {
+        if (!overlapsRange(startDate, endDate, rangeStart, rangeEnd)) return;
+
+        events.push({
+            id: props.id || `${props.uid}-${startDate.getTime()}`,
+            uid: props.uid, // Populate UID
+            title: props.summary,
+            description: props.description,
+            startDate,
+            endDate,
+            location: props.location,
+            organizer: props.organizer,
+            organizerEmail: props.organizerEmail,
+            attendees: props.attendees,
+            attendeeDetails: props.attendeeDetails,
+            myPartstat: this.findMyPartstat(props.organizerEmail, props.attendeeDetails),
+            isAllDay,
+            isRecurring: props.isRecurring,
+            url: props.url,
+            status: props.status,
+            transparency: props.transparency,
+            isCancelled: props.isCancelled,
+        });
+    }
+
+    private findMyPartstat(organizerEmail: string, attendees: ExternalCalendarAttendee[]): ParticipationStatus | undefined {
+        if (this.identityEmails.length === 0) return undefined;
+        const me = attendees.find((attendee) => this.identityEmails.includes(attendee.email.toLowerCase()));
+        if (me) return me.partstat;
+        // Organizers are often left out of the attendee list of their own events
+        return organizerEmail && this.identityEmails.includes(organizerEmail.toLowerCase()) ? "accepted" : undefined;
+    }
+
+    private extractString(vevent: ICAL.Component, propName: string, fallback: string): string {
+        const val = vevent.getFirstPropertyValue(propName);
+        if (val === null || val === undefined) return fallback;
+        if (Array.isArray(val)) {
+            return val.map(String).join(", ");
+        }
+        return String(val);
+    }
+
+    private extractOrganizer(vevent: ICAL.Component): ExternalCalendarPerson | null {
+        const prop = vevent.getFirstProperty("organizer");
+        if (!prop) return null;
+        const person = this.extractPerson(prop);
+        return person.name || person.email ? person : null;
+    }
+
+    private extractAttendees(vevent: ICAL.Component): ExternalCalendarAttendee[] {
+        const attendees: ExternalCalendarAttendee[] = [];
+        const props = vevent.getAllProperties("attendee");
+        for (const prop of props) {
+            const person = this.extractPerson(prop);
+            if (!person.name && !person.email) continue;
+            const cutype = this.extractParameter(prop, "cutype").toUpperCase();
+            attendees.push({
+                ...person,
+                role: this.parseRole(this.extractParameter(prop, "role")),
+                partstat: this.parsePartstat(this.extractParameter(prop, "partstat")),
+                rsvp: this.extractParameter(prop, "rsvp").toUpperCase() === "TRUE",
+                isResource: cutype === "ROOM" || cutype === "RESOURCE",
+            });
+        }
+        return attendees;
+    }
+
+    private extractParameter(prop: ICAL.Property, name: string): string {
+        const value = prop.getParameter(name);
+        const first = Array.isArray(value) ? value[0] : value;
+        return first ? String(first).trim() : "";
+    }
+
+    private parseRole(value: string): AttendeeRole {
+        switch (value.toUpperCase()) {
+            case "CHAIR":
+                return "chair";
+            case "OPT-PARTICIPANT":
+                return "optional";
+            case "NON-PARTICIPANT":
+                return "non-participant";
+            default:
+                return "required";
+        }
+    }
+
+    private parsePartstat(value: string): ParticipationStatus {
+        const status = value.toLowerCase();
+        return status === "accepted" || status === "declined" || status === "tentative" || status === "delegated"
+            ? status
+            : "needs-action";
+    }
+
+    private extractPerson(prop: ICAL.Property): ExternalCalendarPerson {
+        const val = prop.getFirstValue();
+        const address = Array.isArray(val) ? String(val[0]) : (typeof val === "string" ? val : String(val ?? ""));
+        return { name: this.extractParameter(prop, "cn"), email: address.replace(/^mailto:/i, "").trim() };
+    }
+
+    /** CN when present, email otherwise. This is the label used in `organizer`/`attendees`. */
+    private formatPerson(person: ExternalCalendarPerson): string {
+        return person.name || person.email;
+    }
+}
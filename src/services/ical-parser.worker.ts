@@ -0,0 +1,31 @@
+import { ICalParser } from "./ical-parser";
+import type { ICalParserWorkerRequest, ICalParserWorkerResponse } from "./ical-parser-client";
+
+/**
+ * Worker entry for ICalParser. Bundled separately and inlined into main.js by the
+ * `worker:` import in ical-parser-client.ts. One message is handled at a time, so the
+ * parsed feeds kept by the parser are only touched from here.
+ */
+const parser = new ICalParser();
+
+const reply = (response: ICalParserWorkerResponse) => postMessage(response);
+
+addEventListener("message", (message: MessageEvent<ICalParserWorkerRequest>) => {
+    const request = message.data;
+    if (request.type === "clear") {
+        parser.clear();
+        return;
+    }
+
+    try {
+        // Unchanged feeds arrive without text; the parser still has the last copy
+        const text = request.text ?? (request.feedKey ? parser.getFeedText(request.feedKey) : null);
+        if (text === null) {
+            reply({ id: request.id, missingFeed: true });
+            return;
+        }
+        reply({ id: request.id, events: parser.parse({ ...request, text }) });
+    } catch (error) {
+        reply({ id: request.id, error: error instanceof Error ? error.message : String(error) });
+    }
+});
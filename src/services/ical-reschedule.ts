@@ -0,0 +1,77 @@
+import ICAL from "ical.js";
+import { ExternalCalendarEvent } from "../external-calendar-service";
+
+/**
+ * Moves one event inside a calendar object resource and returns the new iCal text.
+ * Handles single events and already-moved occurrences (a VEVENT with RECURRENCE-ID).
+ * Returns null for plain occurrences of a series, which would need a new exception.
+ */
+export function rescheduleEventData(
+    data: string,
+    event: Pick<ExternalCalendarEvent, "id" | "uid">,
+    start: Date,
+    end: Date,
+    allDay: boolean
+): string | null {
+    const calendar = new ICAL.Component(ICAL.parse(data));
+    const vevent = findTargetEvent(calendar, event);
+    if (!vevent) return null;
+
+    setDate(vevent, "dtstart", start, allDay);
+    vevent.removeAllProperties("duration");
+    setDate(vevent, "dtend", end, allDay);
+
+    // Other clients only pick up the change reliably when SEQUENCE goes up
+    const sequence = Number(vevent.getFirstPropertyValue("sequence") ?? 0);
+    vevent.updatePropertyWithValue("sequence", Number.isFinite(sequence) ? sequence + 1 : 1);
+    const now = ICAL.Time.fromJSDate(new Date(), true);
+    vevent.updatePropertyWithValue("dtstamp", now);
+    vevent.updatePropertyWithValue("last-modified", now);
+
+    return calendar.toString();
+}
+
+function findTargetEvent(calendar: ICAL.Component, event: Pick<ExternalCalendarEvent, "id" | "uid">): ICAL.Component | null {
+    const candidates = calendar
+        .getAllSubcomponents("vevent")
+        .filter((vevent) => String(vevent.getFirstPropertyValue("uid") ?? "") === event.uid);
+
+    if (event.id === event.uid) {
+        const master = candidates.find((vevent) => !vevent.getFirstProperty("recurrence-id"));
+        return master && !master.getFirstProperty("rrule") && !master.getFirstProperty("rdate") ? master : null;
+    }
+
+    // Moved occurrences carry `${uid}-${recurrence id in ms}` as their id
+    return (
+        candidates.find((vevent) => {
+            const recurrenceId = vevent.getFirstPropertyValue("recurrence-id") as ICAL.Time | null;
+            return recurrenceId && `${event.uid}-${recurrenceId.toJSDate().getTime()}` === event.id;
+        }) ?? null
+    );
+}
+
+/**
+ * Writes the date as UTC, or as a DATE for all-day events, replacing any TZID.
+ * All-day ends are exclusive in iCal, so a one-day event ends the next day.
+ */
+function setDate(vevent: ICAL.Component, name: "dtstart" | "dtend", date: Date, allDay: boolean) {
+    vevent.removeAllProperties(name);
+    const property = new ICAL.Property(name, vevent);
+    if (allDay) {
+        const day = new Date(date);
+        if (name === "dtend" && day.getTime() <= startOfDay(vevent).getTime()) {
+            day.setDate(day.getDate() + 1);
+        }
+        property.setValue(
+            ICAL.Time.fromData({ year: day.getFullYear(), month: day.getMonth() + 1, day: day.getDate(), isDate: true })
+        );
+    } else {
+        property.setValue(ICAL.Time.fromJSDate(date, true));
+    }
+    vevent.addProperty(property);
+}
+
+function startOfDay(vevent: ICAL.Component): Date {
+    const start = vevent.getFirstPropertyValue("dtstart") as ICAL.Time | null;
+    return start ? new Date(start.year, start.month - 1, start.day) : new Date(0);
+}
@@ -0,0 +1,62 @@
+import { App, moment, normalizePath } from "obsidian";
+import type { Moment } from "moment";
+import { ExternalCalendarEvent } from "../external-calendar-service";
+
+export const DEFAULT_MEETING_NOTE_PATTERN = "{{title}} {{date}}";
+
+export interface MeetingNoteName {
+    /** Subfolder from the pattern, relative to the meeting note folder. Empty when the pattern has none. */
+    folder: string;
+    baseName: string;
+}
+
+export function sanitizeFileName(value: string): string {
+    return value.replace(/[\\/:*?"<>|]/g, "").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Note folder and basename for an event. Used for creation and for the rename check, so both agree.
+ * Tokens: {{title}}, {{date}} / {{date:YYYY-MM-DD}}, {{time}} / {{time:HHmm}}, {{calendar}}.
+ * Slashes in the pattern create subfolders, e.g. `Meetings/{{date:YYYY}}/{{date:MM}}/{{title}}`.
+ */
+export function formatMeetingNoteName(
+    pattern: string | null | undefined,
+    event: Pick<ExternalCalendarEvent, "title" | "startDate">,
+    calendarName = ""
+): MeetingNoteName {
+    // Obsidian types its moment export as the module namespace, which has no call signature
+    const start = (moment as unknown as (date: Date) => Moment)(event.startDate);
+    const segments = (pattern?.trim() || DEFAULT_MEETING_NOTE_PATTERN)
+        .split("/")
+        .map((segment) =>
+            sanitizeFileName(
+                segment
+                    .replace(/{{title}}/g, sanitizeFileName(event.title))
+                    .replace(/{{calendar}}/g, sanitizeFileName(calendarName))
+                    .replace(/{{date(?::([^}]+))?}}/g, (_, format?: string) => start.format(format || "YYYY-MM-DD"))
+                    .replace(/{{time(?::([^}]+))?}}/g, (_, format?: string) => start.format(format || "HHmm"))
+            )
+        )
+        .filter(Boolean);
+
+    const baseName = segments.pop() || start.format("YYYY-MM-DD");
+    return { folder: segments.join("/"), baseName };
+}
+
+export function joinFolder(base: string | null | undefined, sub: string): string {
+    const joined = [base?.trim(), sub].filter(Boolean).join("/");
+    return joined ? normalizePath(joined) : "";
+}
+
+/**
+ * Creates the folder and any missing parents.
+ */
+export async function ensureFolder(app: App, path: string): Promise<void> {
+    let current = "";
+    for (const segment of path.split("/").filter(Boolean)) {
+        current = current ? `${current}/${segment}` : segment;
+        if (!app.vault.getAbstractFileByPath(current)) {
+            await app.vault.createFolder(current);
+        }
+    }
+}
@@ -0,0 +1,115 @@
+import { App, TFile, TFolder, Vault, normalizePath } from "obsidian";
+import * as logger from "../logger";
+import { ExternalCalendarPerson } from "../external-calendar-service";
+import { ensureFolder, sanitizeFileName } from "./meeting-note-name";
+
+export interface PeopleResolverConfig {
+    /** Folder holding person notes. Empty disables resolution. */
+    folder: string;
+    /** Create a stub note for attendees without a person note. */
+    createStubs: boolean;
+}
+
+/**
+ * Maps calendar attendees to person notes. A person note matches by basename, by `aliases`,
+ * or by any address in its `email`/`emails` frontmatter.
+ */
+export class PeopleResolver {
+    app: App;
+    private config: PeopleResolverConfig = { folder: "", createStubs: false };
+    private byKey = new Map<string, TFile>();
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    updateConfig(config: Partial<PeopleResolverConfig>) {
+        this.config = { ...this.config, ...config };
+    }
+
+    get enabled(): boolean {
+        return Boolean(this.config.folder.trim());
+    }
+
+    /**
+     * Rescans the people folder. Called once per sync; the folder is small compared to the vault.
+     */
+    refresh() {
+        this.byKey.clear();
+        if (!this.enabled) return;
+        const folder = this.app.vault.getAbstractFileByPath(normalizePath(this.config.folder));
+        if (!(folder instanceof TFolder)) return;
+
+        Vault.recurseChildren(folder, (child) => {
+            if (!(child instanceof TFile) || child.extension !== "md") return;
+            const fm = this.app.metadataCache.getFileCache(child)?.frontmatter ?? {};
+            this.addKey(child.basename, child);
+            for (const alias of this.toList(fm.aliases)) this.addKey(alias, child);
+            for (const email of [...this.toList(fm.email), ...this.toList(fm.emails)]) this.addKey(email, child);
+        });
+    }
+
+    /**
+     * `[[Person]]` for a known person, or for the stub that ensureStubs will create.
+     * Anyone else gets a plain `[[label]]`, the same as a link mapping without a people folder.
+     */
+    link(person: ExternalCalendarPerson): string {
+        const file = this.enabled ? this.find(person) : undefined;
+        if (file) return `[[${this.app.metadataCache.fileToLinktext(file, "")}]]`;
+        const stubName = this.enabled && this.config.createStubs ? this.stubName(person) : "";
+        const label = stubName || (person.name || person.email).replace(/[[\]|#^]/g, "").trim();
+        return label ? `[[${label}]]` : "";
+    }
+
+    /**
+     * Creates stub notes for the given people that have no person note yet.
+     */
+    async ensureStubs(people: ExternalCalendarPerson[]): Promise<void> {
+        if (!this.enabled || !this.config.createStubs) return;
+        for (const person of people) {
+            if (this.find(person)) continue;
+            const name = this.stubName(person);
+            if (!name) continue;
+
+            const folder = normalizePath(this.config.folder);
+            const path = normalizePath(`${folder}/${name}.md`);
+            if (this.app.vault.getAbstractFileByPath(path)) continue;
+            try {
+                await ensureFolder(this.app, folder);
+                const lines = ["---"];
+                if (person.name) lines.push(`aliases:`, `  - ${JSON.stringify(person.name)}`);
+                if (person.email) lines.push(`emails:`, `  - ${JSON.stringify(person.email)}`);
+                lines.push("---", "");
+                const file = await this.app.vault.create(path, lines.join("\n"));
+                if (person.email) this.addKey(person.email, file);
+                if (person.name) this.addKey(person.name, file);
+                this.addKey(name, file);
+            } catch (e) {
+                logger.error(`[PeopleResolver] Failed to create person note ${path}:`, e);
+            }
+        }
+    }
+
+    private find(person: ExternalCalendarPerson): TFile | undefined {
+        return (person.email ? this.byKey.get(person.email.toLowerCase()) : undefined)
+            ?? (person.name ? this.byKey.get(person.name.toLowerCase()) : undefined);
+    }
+
+    private stubName(person: ExternalCalendarPerson): string {
+        // Mailing lists and rooms often have no CN; the local part is the best name we have
+        return sanitizeFileName(person.name || person.email.split("@")[0] || "");
+    }
+
+    private addKey(key: string, file: TFile) {
+        const normalized = key.trim().toLowerCase();
+        if (normalized && !this.byKey.has(normalized)) {
+            this.byKey.set(normalized, file);
+        }
+    }
+
+    private toList(value: unknown): string[] {
+        if (Array.isArray(value)) return value.map(String);
+        if (typeof value === "string" && value.trim()) return [value];
+        return [];
+    }
+}
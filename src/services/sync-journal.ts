@@ -0,0 +1,131 @@
+import { App, TFile, normalizePath } from "obsidian";
+import * as logger from "../logger";
+
+export type SyncJournalChange =
+    | { kind: 'created'; path: string }
+    | { kind: 'updated'; path: string; fields: string[] }
+    | { kind: 'renamed'; from: string; to: string }
+    | { kind: 'archived'; from: string; to: string }
+    | { kind: 'deleted'; path: string }
+    | { kind: 'cancelled'; path: string };
+
+export interface SyncJournalSource {
+    url: string;
+    ok: boolean;
+    error?: string;
+}
+
+export interface SyncJournalEntry {
+    timestamp: Date;
+    trigger: 'sync' | 'preview' | 'conflict';
+    sources: SyncJournalSource[];
+    changes: SyncJournalChange[];
+    aborted?: string;
+}
+
+const TRIGGER_LABELS: Record<SyncJournalEntry['trigger'], string> = {
+    sync: "Sync",
+    preview: "Sync (approved from preview)",
+    conflict: "Conflict resolution",
+};
+
+/**
+ * Append-only markdown log of every reconcile run, kept as a regular vault note.
+ */
+export class SyncJournal {
+    app: App;
+
+    constructor(app: App) {
+        this.app = app;
+    }
+
+    async append(path: string, entry: SyncJournalEntry): Promise<void> {
+        const normalized = normalizePath(path.endsWith(".md") ? path : `${path}.md`);
+        try {
+            const text = this.format(entry);
+            const existing = this.app.vault.getAbstractFileByPath(normalized);
+            if (existing instanceof TFile) {
+                await this.app.vault.append(existing, text);
+                return;
+            }
+
+            const folder = normalized.includes("/") ? normalized.substring(0, normalized.lastIndexOf("/")) : "";
+            if (folder && !this.app.vault.getAbstractFileByPath(folder)) {
+                await this.app.vault.createFolder(folder);
+            }
+            await this.app.vault.create(normalized, `# Calendar sync journal\n${text}`);
+        } catch (e) {
+            logger.error('[SyncJournal] Failed to write journal entry:', e);
+        }
+    }
+
+    private format(entry: SyncJournalEntry): string {
+        const lines: string[] = [];
+        const label = TRIGGER_LABELS[entry.trigger];
+        lines.push("", `## ${label} ${this.formatTimestamp(entry.timestamp)}`, "");
+
+        // Conflict resolutions only write to notes; no calendar is fetched
+        if (entry.trigger !== 'conflict') {
+            lines.push("Calendars:");
+            if (!entry.sources.length) {
+                lines.push("- (none)");
+            }
+            for (const source of entry.sources) {
+                const status = source.ok ? "ok" : `failed${source.error ? ` (${source.error})` : ""}`;
+                lines.push(`- ${this.redactUrl(source.url)}: ${status}`);
+            }
+        }
+
+        if (entry.aborted) {
+            lines.push("", `Aborted: ${entry.aborted}`);
+        }
+
+        lines.push("", "Changes:");
+        if (!entry.changes.length) {
+            lines.push("- (none)");
+        }
+        for (const change of entry.changes) {
+            switch (change.kind) {
+                case 'created':
+                    lines.push(`- Created [[${change.path}]]`);
+                    break;
+                case 'updated':
+                    lines.push(`- Updated [[${change.path}]]: ${change.fields.join(", ")}`);
+                    break;
+                case 'renamed':
+                    lines.push(`- Renamed \`${change.from}\` → [[${change.to}]]`);
+                    break;
+                case 'archived':
+                    lines.push(`- Archived \`${change.from}\` → [[${change.to}]]`);
+                    break;
+                case 'deleted':
+                    lines.push(`- Deleted \`${change.path}\``);
+                    break;
+                case 'cancelled':
+                    lines.push(`- Marked cancelled [[${change.path}]]`);
+                    break;
+            }
+        }
+        lines.push("");
+        return lines.join("\n");
+    }
+
+    private formatTimestamp(date: Date): string {
+        const pad = (n: number) => String(n).padStart(2, "0");
+        return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+    }
+
+    /**
+     * Feed URLs often embed a private token; only keep host and file name in the note.
+     */
+    private redactUrl(url: string): string {
+        try {
+            const parsed = new URL(url);
+            const segments = parsed.pathname.split("/").filter(Boolean);
+            const last = segments.length ? segments[segments.length - 1] : "";
+            return segments.length > 1 ? `${parsed.host}/…/${last}` : `${parsed.host}/${last}`;
+        } catch {
+            return url;
+        }
+    }
+}
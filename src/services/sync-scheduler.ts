@@ -0,0 +1,156 @@
+import * as logger from "../logger";
+import { AutoCreateSyncResult } from "./auto-create-service";
+
+export interface SyncSchedulerOptions {
+    /** Runs one reconcile pass. Resolves to null when the run was skipped. */
+    runSync: () => Promise<AutoCreateSyncResult | null>;
+    getIntervalMinutes: () => number;
+    isPaused: () => boolean;
+    statusBarEl?: HTMLElement | null;
+}
+
+/**
+ * Plugin-level timer for background meeting-note sync.
+ * Owns the interval and the status bar summary; the actual reconcile lives in AutoCreateService.
+ */
+export class SyncScheduler {
+    private options: SyncSchedulerOptions;
+    private intervalId: number | null = null;
+    private intervalMinutes = 0;
+    private nextRunAt: Date | null = null;
+    private lastRunAt: Date | null = null;
+    private lastResult: AutoCreateSyncResult | null = null;
+    private running = false;
+
+    constructor(options: SyncSchedulerOptions) {
+        this.options = options;
+    }
+
+    start() {
+        this.stop();
+        if (this.options.isPaused()) {
+            this.renderStatus();
+            return;
+        }
+        this.intervalMinutes = this.resolveIntervalMinutes();
+        const intervalMs = this.intervalMinutes * 60 * 1000;
+        this.intervalId = window.setInterval(() => {
+            void this.tick();
+        }, intervalMs);
+        this.nextRunAt = new Date(Date.now() + intervalMs);
+        this.renderStatus();
+    }
+
+    stop() {
+        if (this.intervalId !== null) {
+            window.clearInterval(this.intervalId);
+            this.intervalId = null;
+        }
+        this.nextRunAt = null;
+        this.renderStatus();
+    }
+
+    /**
+     * Restart the timer if the interval or pause state changed since it was started.
+     */
+    refresh() {
+        const paused = this.options.isPaused();
+        const running = this.intervalId !== null;
+        if (paused && running) {
+            this.stop();
+        } else if (!paused && (!running || this.resolveIntervalMinutes() !== this.intervalMinutes)) {
+            this.start();
+        }
+    }
+
+    async runNow(): Promise<AutoCreateSyncResult | null> {
+        if (this.running) {
+            logger.log('[SyncScheduler] Sync already running, skipping');
+            return null;
+        }
+        this.running = true;
+        this.renderStatus();
+        try {
+            const result = await this.options.runSync();
+            if (result) {
+                this.lastRunAt = new Date();
+                this.lastResult = result;
+            }
+            return result;
+        } catch (e) {
+            logger.error('[SyncScheduler] Sync failed:', e);
+            return null;
+        } finally {
+            this.running = false;
+            if (this.intervalId !== null) {
+                // Restart the interval so a manual run pushes the next automatic one back
+                this.start();
+            } else {
+                this.renderStatus();
+            }
+        }
+    }
+
+    private async tick() {
+        if (this.options.isPaused()) return;
+        await this.runNow();
+    }
+
+    private resolveIntervalMinutes(): number {
+        const minutes = Number(this.options.getIntervalMinutes());
+        return Number.isFinite(minutes) && minutes > 0 ? minutes : 5;
+    }
+
+    private renderStatus() {
+        const el = this.options.statusBarEl;
+        if (!el) return;
+
+        const formatTime = (date: Date) =>
+            new Intl.DateTimeFormat(undefined, { hour: "numeric", minute: "2-digit" }).format(date);
+
+        const parts: string[] = [];
+        if (this.running) {
+            parts.push("Calendar sync: running…");
+        } else if (this.lastRunAt) {
+            parts.push(`Calendar sync: ${formatTime(this.lastRunAt)}`);
+        } else {
+            parts.push("Calendar sync: not run yet");
+        }
+
+        if (this.options.isPaused()) {
+            parts.push("paused");
+        } else if (this.nextRunAt && !this.running) {
+            parts.push(`next ${formatTime(this.nextRunAt)}`);
+        }
+
+        if (this.lastResult) {
+            const { created, updated, deleted, failedSources, aborted } = this.lastResult;
+            parts.push(aborted ? "aborted" : `+${created} ~${updated} -${deleted}`);
+            if (failedSources.length) parts.push(`${failedSources.length} failed`);
+            if (this.lastResult.conflicts.length) parts.push(`${this.lastResult.conflicts.length} conflicts`);
+        }
+
+        el.setText(parts.join(" · "));
+
+        const tooltip = [
+            this.lastRunAt ? `Last sync: ${this.lastRunAt.toLocaleString()}` : "Last sync: never",
+            this.options.isPaused()
+                ? "Next sync: paused"
+                : `Next sync: ${this.nextRunAt ? this.nextRunAt.toLocaleString() : "—"}`,
+        ];
+        if (this.lastResult) {
+            const { created, updated, deleted } = this.lastResult;
+            tooltip.push(`Last run: ${created} created, ${updated} updated, ${deleted} deleted`);
+            if (this.lastResult.aborted) {
+                tooltip.push("Last run aborted by the removal safety limit");
+            }
+            if (this.lastResult.failedSources.length) {
+                tooltip.push(`Failed calendars: ${this.lastResult.failedSources.length}`);
+            }
+            if (this.lastResult.conflicts.length) {
+                tooltip.push(`Conflicts waiting: ${this.lastResult.conflicts.length}`);
+            }
+        }
+        el.setAttr("aria-label", tooltip.join("\n"));
+    }
+}
@@ -0,0 +1,47 @@
+import { ExternalCalendarEvent } from "../external-calendar-service";
+import { formatDateTimeForFrontmatter } from "../utils";
+
+/**
+ * Frontmatter keys holding the remote values as of the last sync.
+ * Comparing note, snapshot and calendar tells us which side changed a field.
+ */
+export const SYNC_SNAPSHOT_KEYS = {
+    start: "syncedStart",
+    end: "syncedEnd",
+    title: "syncedTitle",
+} as const;
+
+export type SyncSnapshotField = keyof typeof SYNC_SNAPSHOT_KEYS;
+
+export const SYNC_SNAPSHOT_FIELDS: SyncSnapshotField[] = ["start", "end", "title"];
+
+export type SyncSnapshot = Record<SyncSnapshotField, string>;
+
+export function buildSyncSnapshot(event: ExternalCalendarEvent): SyncSnapshot {
+    return {
+        start: formatDateTimeForFrontmatter(event.startDate),
+        end: formatDateTimeForFrontmatter(event.endDate),
+        title: event.title,
+    };
+}
+
+/**
+ * Snapshot values stored on a note. Fields are missing for notes created before snapshots existed.
+ */
+export function readSyncSnapshot(frontmatter: Record<string, unknown>): Partial<SyncSnapshot> {
+    const snapshot: Partial<SyncSnapshot> = {};
+    for (const field of SYNC_SNAPSHOT_FIELDS) {
+        const value = frontmatter[SYNC_SNAPSHOT_KEYS[field]];
+        if (value !== undefined && value !== null && value !== "") {
+            snapshot[field] = String(value);
+        }
+    }
+    return snapshot;
+}
+
+export function writeSyncSnapshot(frontmatter: Record<string, unknown>, event: ExternalCalendarEvent) {
+    const snapshot = buildSyncSnapshot(event);
+    for (const field of SYNC_SNAPSHOT_FIELDS) {
+        frontmatter[SYNC_SNAPSHOT_KEYS[field]] = snapshot[field];
+    }
+}
@@ -0,0 +1,113 @@
+import { App, Modal, Setting } from "obsidian";
+import { SyncAction, SyncFieldChange } from "./services/auto-create-service";
+import { SyncSnapshotField } from "./services/sync-snapshot";
+
+type ConflictChoice = "local" | "remote";
+
+const FIELD_LABELS: Record<SyncSnapshotField, string> = {
+  start: "Start",
+  end: "End",
+  title: "Title",
+};
+
+/**
+ * Shows meeting notes that were changed both in the vault and on the calendar,
+ * and lets the user pick a side per field.
+ */
+export class SyncConflictModal extends Modal {
+  private conflicts: SyncAction[];
+  private onResolve: (resolutions: SyncAction[]) => Promise<void>;
+  private choices: Map<string, ConflictChoice>;
+
+  constructor(
+    app: App,
+    conflicts: SyncAction[],
+    onResolve: (resolutions: SyncAction[]) => Promise<void>,
+  ) {
+    super(app);
+    this.conflicts = conflicts;
+    this.onResolve = onResolve;
+    // Default to keeping the note as it is; nothing is overwritten unless picked
+    this.choices = new Map();
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("calendar-sync-conflict-modal");
+    contentEl.createEl("h2", { text: "Resolve calendar sync conflicts" });
+    contentEl.createEl("p", {
+      text: "These meeting notes were changed in your vault and on the calendar since the last sync.",
+    });
+
+    const listEl = contentEl.createDiv({ cls: "calendar-sync-conflict-list" });
+    listEl.style.maxHeight = "60vh";
+    listEl.style.overflowY = "auto";
+
+    this.conflicts.forEach((action, actionIndex) => {
+      const section = listEl.createDiv({ cls: "calendar-sync-conflict-section" });
+      const heading = section.createEl("h4", { text: action.file?.path ?? action.event?.title ?? "" });
+      heading.style.marginBottom = "6px";
+
+      (action.conflicts ?? []).forEach((conflict) => {
+        const key = this.choiceKey(actionIndex, conflict.field);
+        new Setting(section)
+          .setName(FIELD_LABELS[conflict.field])
+          .setDesc(`Note: ${conflict.local} · Calendar: ${conflict.remote}`)
+          .addDropdown((dropdown) =>
+            dropdown
+              .addOption("local", "Keep note")
+              .addOption("remote", "Use calendar")
+              .setValue(this.choices.get(key) ?? "local")
+              .onChange((value) => {
+                this.choices.set(key, value as ConflictChoice);
+              }),
+          );
+      });
+    });
+
+    const buttonContainer = contentEl.createDiv({ cls: "modal-button-container" });
+    buttonContainer.style.marginTop = "20px";
+    buttonContainer.style.display = "flex";
+    buttonContainer.style.gap = "10px";
+    buttonContainer.style.justifyContent = "flex-end";
+
+    const applyBtn = buttonContainer.createEl("button", {
+      text: "Apply",
+      cls: "mod-cta",
+    });
+    applyBtn.addEventListener("click", async () => {
+      applyBtn.disabled = true;
+      await this.onResolve(this.buildResolutions());
+      this.close();
+    });
+
+    const laterBtn = buttonContainer.createEl("button", { text: "Later" });
+    laterBtn.addEventListener("click", () => this.close());
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private choiceKey(actionIndex: number, field: SyncSnapshotField): string {
+    return `${actionIndex}:${field}`;
+  }
+
+  private buildResolutions(): SyncAction[] {
+    return this.conflicts.map((action, actionIndex) => {
+      const changes: Record<string, SyncFieldChange> = {};
+      for (const conflict of action.conflicts ?? []) {
+        const choice = this.choices.get(this.choiceKey(actionIndex, conflict.field)) ?? "local";
+        Object.assign(changes, choice === "remote" ? conflict.useRemote : conflict.keepLocal);
+      }
+      return {
+        id: `${action.id}-resolved`,
+        kind: "update",
+        file: action.file,
+        event: action.event,
+        changes,
+      };
+    });
+  }
+}
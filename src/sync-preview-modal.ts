@@ -0,0 +1,187 @@
+import { App, Modal } from "obsidian";
+import { SyncAction, SyncActionKind, SyncPlan } from "./services/auto-create-service";
+
+const SECTION_LABELS: Record<SyncActionKind, string> = {
+  create: "Create",
+  update: "Update frontmatter",
+  rename: "Rename",
+  remove: "Remove",
+  conflict: "Conflicts (resolve after applying)",
+};
+
+const REMOVAL_LABELS: Record<string, string> = {
+  delete: "Delete",
+  archive: "Archive",
+  cancel: "Mark cancelled",
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === "") return "(empty)";
+  return String(value);
+};
+
+const formatEventDate = (date: Date): string =>
+  new Intl.DateTimeFormat(undefined, {
+    weekday: "short",
+    month: "short",
+    day: "numeric",
+    hour: "numeric",
+    minute: "2-digit",
+  }).format(date);
+
+/**
+ * Lists a planned calendar sync and lets the user approve individual actions before anything is written.
+ */
+export class SyncPreviewModal extends Modal {
+  private plan: SyncPlan;
+  private onApply: (approved: SyncAction[]) => Promise<void>;
+  private selected: Set<string>;
+
+  constructor(
+    app: App,
+    plan: SyncPlan,
+    onApply: (approved: SyncAction[]) => Promise<void>,
+  ) {
+    super(app);
+    this.plan = plan;
+    this.onApply = onApply;
+    // Creates, updates and conflicts are pre-approved; destructive actions must be ticked explicitly
+    this.selected = new Set(
+      plan.actions
+        .filter((action) => action.kind !== "rename" && action.kind !== "remove")
+        .map((action) => action.id),
+    );
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.addClass("calendar-sync-preview-modal");
+    contentEl.createEl("h2", { text: "Preview calendar sync" });
+
+    if (this.plan.failedSources.length > 0) {
+      const warning = contentEl.createEl("p", {
+        text: `${this.plan.failedSources.length} calendar(s) failed to load. Their notes are not listed for removal.`,
+      });
+      warning.style.color = "var(--text-error)";
+    }
+
+    if (!this.plan.actions.length) {
+      contentEl.createEl("p", { text: "Everything is in sync. Nothing to do." });
+      this.renderButtons(false);
+      return;
+    }
+
+    const listEl = contentEl.createDiv({ cls: "calendar-sync-preview-list" });
+    listEl.style.maxHeight = "60vh";
+    listEl.style.overflowY = "auto";
+
+    (Object.keys(SECTION_LABELS) as SyncActionKind[]).forEach((kind) => {
+      const actions = this.plan.actions.filter((action) => action.kind === kind);
+      if (!actions.length) return;
+
+      const section = listEl.createDiv({ cls: "calendar-sync-preview-section" });
+      const heading = section.createEl("h4", {
+        text: `${SECTION_LABELS[kind]} (${actions.length})`,
+      });
+      heading.style.marginBottom = "6px";
+
+      actions.forEach((action) => {
+        const row = section.createEl("label", { cls: "calendar-sync-preview-row" });
+        row.style.display = "flex";
+        row.style.alignItems = "flex-start";
+        row.style.gap = "8px";
+        row.style.padding = "4px 0";
+
+        const checkbox = row.createEl("input", { type: "checkbox" });
+        checkbox.checked = this.selected.has(action.id);
+        checkbox.addEventListener("change", () => {
+          if (checkbox.checked) {
+            this.selected.add(action.id);
+          } else {
+            this.selected.delete(action.id);
+          }
+        });
+
+        const text = row.createDiv();
+        text.createDiv({ text: this.describe(action) });
+        for (const detail of this.details(action)) {
+          const detailEl = text.createDiv({ text: detail });
+          detailEl.style.color = "var(--text-muted)";
+          detailEl.style.fontSize = "0.9em";
+        }
+      });
+    });
+
+    this.renderButtons(true);
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private renderButtons(canApply: boolean) {
+    const buttonContainer = this.contentEl.createDiv({ cls: "modal-button-container" });
+    buttonContainer.style.marginTop = "20px";
+    buttonContainer.style.display = "flex";
+    buttonContainer.style.gap = "10px";
+    buttonContainer.style.justifyContent = "flex-end";
+
+    if (canApply) {
+      const applyBtn = buttonContainer.createEl("button", {
+        text: "Apply selected",
+        cls: "mod-cta",
+      });
+      applyBtn.addEventListener("click", async () => {
+        const approved = this.plan.actions.filter((action) => this.selected.has(action.id));
+        applyBtn.disabled = true;
+        await this.onApply(approved);
+        this.close();
+      });
+    }
+
+    const cancelBtn = buttonContainer.createEl("button", { text: canApply ? "Cancel" : "Close" });
+    cancelBtn.addEventListener("click", () => this.close());
+  }
+
+  private describe(action: SyncAction): string {
+    const path = action.file?.path ?? "";
+    switch (action.kind) {
+      case "create":
+        return action.event
+          ? `${action.event.title} — ${formatEventDate(action.event.startDate)}`
+          : "New meeting note";
+      case "update":
+        return path;
+      case "rename":
+        return `${path} → ${action.newFolder ? `${action.newFolder}/` : ""}${action.newBaseName}.${action.file?.extension ?? "md"}`;
+      case "remove":
+        return `${REMOVAL_LABELS[action.removal ?? "cancel"]}: ${path}`;
+      case "conflict":
+        return path;
+      default:
+        return path;
+    }
+  }
+
+  private details(action: SyncAction): string[] {
+    if (action.kind === "update" && action.changes) {
+      return Object.entries(action.changes).map(
+        ([key, change]) => `${key}: ${formatValue(change.from)} → ${formatValue(change.to)}`,
+      );
+    }
+    if (action.kind === "conflict" && action.conflicts) {
+      return action.conflicts.map(
+        (conflict) => `${conflict.field}: note ${formatValue(conflict.local)} · calendar ${formatValue(conflict.remote)}`,
+      );
+    }
+    if (action.kind === "remove") {
+      return [
+        action.reason === "cancelled"
+          ? "Event was cancelled on the calendar"
+          : "Event no longer found on the calendar",
+      ];
+    }
+    return [];
+  }
+}
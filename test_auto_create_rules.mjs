@@ -0,0 +1,80 @@
+#!/usr/bin/env node
+
+/**
+ * Regression fixtures for auto-create rules: a rule whose conditions are still blank (what
+ * "Add rule" creates) must not gate note creation.
+ *
+ * Bundles src/services/auto-create-rules.ts with esbuild and runs the real rule evaluation.
+ * Run from the repo root: node test_auto_create_rules.mjs
+ */
+import esbuild from 'esbuild';
+
+const log = (msg) => console.log(msg);
+
+const bundle = await esbuild.build({
+    entryPoints: ['src/services/auto-create-rules.ts'],
+    bundle: true,
+    write: false,
+    format: 'esm',
+    platform: 'node',
+    logLevel: 'silent',
+});
+const { shouldAutoCreate, createDefaultAutoCreateCondition } = await import(
+    `data:text/javascript;base64,${Buffer.from(bundle.outputFiles[0].text).toString('base64')}`
+);
+
+let failures = 0;
+const check = (name, actual, expected) => {
+    const ok = JSON.stringify(actual) === JSON.stringify(expected);
+    if (!ok) failures++;
+    log(`${ok ? 'PASS' : 'FAIL'} ${name}`);
+    if (!ok) {
+        log(`  expected: ${JSON.stringify(expected)}`);
+        log(`  actual:   ${JSON.stringify(actual)}`);
+    }
+};
+
+const event = {
+    id: 'standup',
+    uid: 'standup',
+    title: 'Team standup',
+    description: '',
+    startDate: new Date('2024-03-12T09:00:00Z'),
+    endDate: new Date('2024-03-12T09:15:00Z'),
+    attendees: ['Ada', 'Grace'],
+    isAllDay: false,
+};
+const rule = (action, ...conditions) => ({ id: action, label: action, active: true, action, match: 'any', conditions });
+
+log('=== Blank rules ===\n');
+check('new rule from "Add rule" does not exclude', shouldAutoCreate([rule('exclude', createDefaultAutoCreateCondition())], event), true);
+check(
+    'blank regex does not exclude',
+    shouldAutoCreate([rule('exclude', { field: 'title', operator: 'matches', value: '' })], event),
+    true,
+);
+check(
+    'blank include rule does not turn on "only matching events"',
+    shouldAutoCreate([rule('include', { field: 'attendees', operator: 'eq', value: ' ' })], event),
+    true,
+);
+check(
+    'blank condition is ignored next to a filled one',
+    shouldAutoCreate([rule('exclude', createDefaultAutoCreateCondition(), { field: 'title', operator: 'contains', value: 'lunch' })], event),
+    true,
+);
+
+log('\n=== Filled rules ===\n');
+check(
+    'filled exclude rule still excludes',
+    shouldAutoCreate([rule('exclude', { field: 'title', operator: 'contains', value: 'standup' })], event),
+    false,
+);
+check(
+    'flag conditions need no value',
+    shouldAutoCreate([rule('exclude', { field: 'allDay', operator: 'no', value: '' })], event),
+    false,
+);
+
+log(`\n${failures === 0 ? 'All fixtures passed' : `${failures} fixture(s) failed`}`);
+process.exitCode = failures === 0 ? 0 : 1;
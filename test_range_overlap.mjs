@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+
+/**
+ * Regression fixtures for range filtering: events are kept when they overlap the range
+ * (end > rangeStart && start < rangeEnd), not only when they start inside it.
+ *
+ * Bundles src/services/ical-parser.ts with esbuild and runs the real parser.
+ * Run from the repo root: node test_range_overlap.mjs
+ */
+import esbuild from 'esbuild';
+
+const log = (msg) => console.log(msg);
+
+const bundle = await esbuild.build({
+    entryPoints: ['src/services/ical-parser.ts'],
+    bundle: true,
+    write: false,
+    format: 'esm',
+    platform: 'node',
+    logLevel: 'silent',
+});
+const { ICalParser, overlapsRange } = await import(
+    `data:text/javascript;base64,${Buffer.from(bundle.outputFiles[0].text).toString('base64')}`
+);
+
+const calendar = (...events) => [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Test//Test//EN',
+    ...events.flatMap((lines) => ['BEGIN:VEVENT', ...lines, 'END:VEVENT']),
+    'END:VCALENDAR',
+].join('\r\n');
+
+const parse = (ics, rangeStart, rangeEnd) =>
+    new ICalParser().parse({
+        text: ics,
+        rangeStart: new Date(rangeStart),
+        rangeEnd: new Date(rangeEnd),
+        includeCancelled: false,
+        identityEmails: [],
+    });
+
+let failures = 0;
+const check = (name, actual, expected) => {
+    const ok = JSON.stringify(actual) === JSON.stringify(expected);
+    if (!ok) failures++;
+    log(`${ok ? 'PASS' : 'FAIL'} ${name}`);
+    if (!ok) {
+        log(`  expected: ${JSON.stringify(expected)}`);
+        log(`  actual:   ${JSON.stringify(actual)}`);
+    }
+};
+const titles = (events) => events.map((event) => event.title).sort();
+const starts = (events) => events.map((event) => event.startDate.toISOString()).sort();
+
+log('=== overlapsRange ===\n');
+{
+    const d = (iso) => new Date(iso);
+    const start = d('2024-03-10T00:00:00Z');
+    const end = d('2024-03-17T00:00:00Z');
+    check('inside', overlapsRange(d('2024-03-11T09:00:00Z'), d('2024-03-11T10:00:00Z'), start, end), true);
+    check('began before, ends inside', overlapsRange(d('2024-03-08T09:00:00Z'), d('2024-03-10T10:00:00Z'), start, end), true);
+    check('spans the whole range', overlapsRange(d('2024-03-01T00:00:00Z'), d('2024-03-31T00:00:00Z'), start, end), true);
+    check('ends exactly at range start', overlapsRange(d('2024-03-09T23:00:00Z'), start, start, end), false);
+    check('starts exactly at range end', overlapsRange(end, d('2024-03-17T01:00:00Z'), start, end), false);
+    check('zero-length at range start', overlapsRange(start, start, start, end), true);
+    check('open range', overlapsRange(d('2000-01-01T00:00:00Z'), d('2000-01-01T01:00:00Z')), true);
+}
+
+log('\n=== Single events ===\n');
+{
+    const ics = calendar(
+        ['UID:conference', 'DTSTART:20240308T080000Z', 'DTEND:20240312T170000Z', 'SUMMARY:Conference'],
+        ['UID:on-call', 'DTSTART:20240309T220000Z', 'DTEND:20240310T060000Z', 'SUMMARY:Overnight on-call'],
+        ['UID:trip', 'DTSTART;VALUE=DATE:20240301', 'DTEND;VALUE=DATE:20240401', 'SUMMARY:Month abroad'],
+        ['UID:ended', 'DTSTART:20240309T220000Z', 'DTEND:20240310T000000Z', 'SUMMARY:Ends at range start'],
+        ['UID:later', 'DTSTART:20240317T000000Z', 'DTEND:20240317T010000Z', 'SUMMARY:Starts at range end'],
+        ['UID:inside', 'DTSTART:20240312T090000Z', 'DTEND:20240312T100000Z', 'SUMMARY:Inside'],
+    );
+    check(
+        'multi-day, overnight and all-day spans that began before the range are kept',
+        titles(parse(ics, '2024-03-10T00:00:00Z', '2024-03-17T00:00:00Z')),
+        ['Conference', 'Inside', 'Month abroad', 'Overnight on-call'],
+    );
+    // All-day dates are local midnights, so the range is built in local time too
+    check(
+        'all-day span that began before the range is kept',
+        titles(parse(ics, new Date(2024, 2, 20), new Date(2024, 2, 27))),
+        ['Month abroad'],
+    );
+}
+
+log('\n=== Recurring events ===\n');
+{
+    const ics = calendar(
+        [
+            'UID:weekly-shift',
+            'DTSTART:20240101T200000Z',
+            'DTEND:20240103T080000Z',
+            'RRULE:FREQ=WEEKLY',
+            'SUMMARY:On-call rotation',
+        ],
+        [
+            'UID:daily',
+            'DTSTART:20240101T233000Z',
+            'DTEND:20240102T000000Z',
+            'RRULE:FREQ=DAILY;COUNT=400',
+            'SUMMARY:Standup',
+        ],
+        [
+            'UID:daily',
+            'RECURRENCE-ID:20240308T233000Z',
+            'DTSTART:20240309T230000Z',
+            'DTEND:20240310T010000Z',
+            'SUMMARY:Late standup',
+        ],
+    );
+    check(
+        'occurrence that began before the range is kept',
+        starts(parse(ics, '2024-03-12T00:00:00Z', '2024-03-14T00:00:00Z').filter((event) => event.title === 'On-call rotation')),
+        ['2024-03-11T20:00:00.000Z'],
+    );
+    const events = parse(ics, '2024-03-10T00:00:00Z', '2024-03-12T00:00:00Z');
+    check(
+        'occurrences ending at the range start are dropped, later ones kept',
+        starts(events.filter((event) => event.title === 'Standup')),
+        ['2024-03-10T23:30:00.000Z', '2024-03-11T23:30:00.000Z'],
+    );
+    check(
+        'moved occurrence that runs into the range is kept',
+        titles(events.filter((event) => event.title === 'Late standup')),
+        ['Late standup'],
+    );
+
+    const shift = calendar([
+        'UID:weekly-shift',
+        'DTSTART:20240101T200000Z',
+        'DTEND:20240103T080000Z',
+        'RRULE:FREQ=WEEKLY',
+        'SUMMARY:On-call rotation',
+    ]);
+    check(
+        'long occurrence still running at the range start is kept years later',
+        starts(parse(shift, '2027-03-03T00:00:00Z', '2027-03-04T00:00:00Z')),
+        ['2027-03-01T20:00:00.000Z'],
+    );
+}
+
+log(`\n${failures === 0 ? 'All fixtures passed' : `${failures} fixture(s) failed`}`);
+process.exitCode = failures === 0 ? 0 : 1;